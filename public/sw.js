@@ -0,0 +1,158 @@
+/**
+ * Service Worker
+ * Precaches the app shell listed in precache-manifest.json and the CheerpJ
+ * runtime, and caches further runtime files as they are used, so games
+ * start without network access. Registered with ?loader=<url of cj3loader.js>.
+ */
+
+const SHELL_CACHE_PREFIX = "j2me-browser-shell-";
+const RUNTIME_CACHE = "j2me-browser-runtime";
+
+const LOADER_URL = new URL(self.location.href).searchParams.get("loader");
+const RUNTIME_BASE = LOADER_URL ? LOADER_URL.substring(0, LOADER_URL.lastIndexOf("/") + 1) : null;
+
+// Files the loader names: its scripts, the wasm engine and the runtime JARs
+const RUNTIME_ASSET_PATTERN = /["'`]([\w./-]+\.(?:js|wasm|jar))["'`]/g;
+
+/**
+ * Version and file list of the current build
+ */
+async function fetchPrecacheManifest() {
+    const response = await fetch("precache-manifest.json", { cache: "no-store" });
+    return response.json();
+}
+
+async function cacheRuntimeFile(cache, url) {
+    if (await cache.match(url)) return;
+    const response = await fetch(url, { mode: "cors", credentials: "omit" });
+    if (response.status === 200) await cache.put(url, response);
+}
+
+/**
+ * Cache the loader and the runtime files it names. Each file is optional:
+ * one that cannot be fetched now is cached on first use instead.
+ */
+async function precacheRuntime() {
+    const cache = await caches.open(RUNTIME_CACHE);
+    const response = await fetch(LOADER_URL, { mode: "cors", credentials: "omit" });
+    if (response.status !== 200) return;
+
+    const source = await response.clone().text();
+    await cache.put(LOADER_URL, response);
+
+    const assets = new Set();
+    for (const [, path] of source.matchAll(RUNTIME_ASSET_PATTERN)) {
+        const url = new URL(path, LOADER_URL).href;
+        if (url.startsWith(RUNTIME_BASE) && url !== LOADER_URL) assets.add(url);
+    }
+    await Promise.all(Array.from(assets, (url) => cacheRuntimeFile(cache, url).catch(() => {})));
+}
+
+self.addEventListener("install", (event) => {
+    event.waitUntil((async () => {
+        const { version, files } = await fetchPrecacheManifest();
+        const cache = await caches.open(SHELL_CACHE_PREFIX + version);
+        await cache.addAll(["./", ...files]);
+
+        // The runtime may be unreachable right now; it is cached on first use then
+        if (LOADER_URL) await precacheRuntime().catch(() => {});
+
+        await self.skipWaiting();
+    })());
+});
+
+self.addEventListener("activate", (event) => {
+    event.waitUntil((async () => {
+        // Drop older shells, once the current one is known to be cached
+        try {
+            const current = SHELL_CACHE_PREFIX + (await fetchPrecacheManifest()).version;
+            if (await caches.has(current)) {
+                const names = await caches.keys();
+                await Promise.all(
+                    names
+                        .filter((name) => name.startsWith(SHELL_CACHE_PREFIX) && name !== current)
+                        .map((name) => caches.delete(name))
+                );
+            }
+        } catch {
+            // Offline: the older shells go on the next activation
+        }
+        await self.clients.claim();
+    })());
+});
+
+/**
+ * Answer a Range request from a complete cached response
+ */
+async function sliceResponse(response, range) {
+    const match = /^bytes=(\d*)-(\d*)$/.exec(range);
+    const blob = await response.blob();
+    if (!match) return new Response(blob, { status: 200, headers: response.headers });
+
+    const size = blob.size;
+    const start = match[1] === "" ? Math.max(size - Number(match[2]), 0) : Number(match[1]);
+    const end = match[1] !== "" && match[2] !== "" ? Math.min(Number(match[2]), size - 1) : size - 1;
+    if (start >= size || start > end) {
+        return new Response(null, { status: 416, headers: { "Content-Range": `bytes */${size}` } });
+    }
+
+    const headers = new Headers(response.headers);
+    headers.set("Content-Range", `bytes ${start}-${end}/${size}`);
+    headers.set("Content-Length", String(end - start + 1));
+    return new Response(blob.slice(start, end + 1), { status: 206, headers });
+}
+
+/**
+ * Runtime files: from the cache when there, else from the network, keeping
+ * a full copy. Partial responses cannot be cached, so a Range request that
+ * misses also fetches the whole file in the background.
+ */
+async function handleRuntime(event) {
+    const { request } = event;
+    const cache = await caches.open(RUNTIME_CACHE);
+    const range = request.headers.get("Range");
+    const cached = await cache.match(request.url);
+
+    if (cached) return range ? sliceResponse(cached, range) : cached;
+
+    const response = await fetch(request);
+    if (response.status === 200) {
+        event.waitUntil(cache.put(request.url, response.clone()));
+    } else if (response.status === 206) {
+        event.waitUntil(
+            fetch(request.url, { mode: "cors", credentials: "omit" })
+                .then((full) => (full.status === 200 ? cache.put(request.url, full) : undefined))
+                .catch(() => {})
+        );
+    }
+    return response;
+}
+
+/**
+ * App files: cached shell first, then the network. Pages fall back to the
+ * cached index so the app opens offline.
+ */
+async function handleShell(request) {
+    const cached = await caches.match(request, { ignoreSearch: request.mode === "navigate" });
+    if (cached && request.mode !== "navigate") return cached;
+
+    try {
+        return await fetch(request);
+    } catch (err) {
+        const fallback = cached ?? (request.mode === "navigate" ? await caches.match("./") : undefined);
+        if (fallback) return fallback;
+        throw err;
+    }
+}
+
+self.addEventListener("fetch", (event) => {
+    const { request } = event;
+    if (request.method !== "GET") return;
+
+    const url = new URL(request.url);
+    if (RUNTIME_BASE && request.url.startsWith(RUNTIME_BASE)) {
+        event.respondWith(handleRuntime(event));
+    } else if (url.origin === self.location.origin) {
+        event.respondWith(handleShell(request));
+    }
+});
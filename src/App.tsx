@@ -6,29 +6,74 @@
 import { useState, useCallback } from 'react';
 import JarLoader from './components/JarLoader';
 import Emulator from './components/Emulator';
-import { type JARManifest } from './utils/jarParser';
+import MidletChooser from './components/MidletChooser';
+import GameLibrary from './components/GameLibrary';
+import { type JARManifest, type MIDletInfo } from './utils/jarParser';
+import { type JarArchive } from './utils/jarArchive';
+import { addGame, openLibraryGame, type LibraryGame } from './utils/gameLibrary';
 import './App.css';
 
 interface LoadedGame {
-  file: File;
+  archive: JarArchive;
   manifest: JARManifest;
+  /** Library entry, once the game has been saved there */
+  libraryId: string | null;
 }
 
 function App() {
   const [loadedGame, setLoadedGame] = useState<LoadedGame | null>(null);
+  const [selectedMidlet, setSelectedMidlet] = useState<MIDletInfo | null>(null);
   const [isLoading, setIsLoading] = useState(false);
+  const [libraryError, setLibraryError] = useState<string | null>(null);
+  // Bumped to reload the library after a batch import
+  const [libraryRevision, setLibraryRevision] = useState(0);
 
-  const handleJarLoaded = useCallback((file: File, manifest: JARManifest) => {
+  const isSuite = (loadedGame?.manifest.midlets.length ?? 0) > 1;
+
+  const handleJarLoaded = useCallback((archive: JarArchive, manifest: JARManifest) => {
     setIsLoading(true);
-    
+    setLibraryError(null);
+
+    // Keep every imported game in the library; the game runs either way
+    const saved = addGame(archive, manifest).then(
+      (game) => game.id,
+      () => null
+    );
+
     // Small delay for UI feedback
-    setTimeout(() => {
-      setLoadedGame({ file, manifest });
+    Promise.all([saved, new Promise((resolve) => setTimeout(resolve, 500))]).then(([libraryId]) => {
+      setLoadedGame({ archive, manifest, libraryId });
+      setSelectedMidlet(null);
       setIsLoading(false);
-    }, 500);
+    });
+  }, []);
+
+  const handleLaunchFromLibrary = useCallback(async (game: LibraryGame) => {
+    try {
+      setLibraryError(null);
+      const archive = await openLibraryGame(game);
+      setLoadedGame({ archive, manifest: game.manifest, libraryId: game.id });
+      setSelectedMidlet(null);
+    } catch (err) {
+      setLibraryError(err instanceof Error ? err.message : 'Failed to open the game');
+    }
+  }, []);
+
+  const handleBatchImported = useCallback(() => {
+    setLibraryRevision((revision) => revision + 1);
   }, []);
 
   const handleExit = useCallback(() => {
+    // Multi-MIDlet suites return to the chooser
+    if (isSuite) {
+      setSelectedMidlet(null);
+    } else {
+      setLoadedGame(null);
+    }
+  }, [isSuite]);
+
+  const handleCloseSuite = useCallback(() => {
+    setSelectedMidlet(null);
     setLoadedGame(null);
   }, []);
 
@@ -54,7 +99,16 @@ function App() {
           </header>
 
           <section className="loader-section">
-            <JarLoader onJarLoaded={handleJarLoaded} isLoading={isLoading} />
+            <JarLoader
+              onJarLoaded={handleJarLoaded}
+              onBatchImported={handleBatchImported}
+              isLoading={isLoading}
+            />
+          </section>
+
+          <section className="library-section">
+            {libraryError && <p className="library-error">{libraryError}</p>}
+            <GameLibrary revision={libraryRevision} onLaunch={handleLaunchFromLibrary} />
           </section>
 
           <section className="features">
@@ -105,10 +159,19 @@ function App() {
             </p>
           </footer>
         </main>
+      ) : isSuite && !selectedMidlet ? (
+        <MidletChooser
+          archive={loadedGame.archive}
+          manifest={loadedGame.manifest}
+          onSelect={setSelectedMidlet}
+          onBack={handleCloseSuite}
+        />
       ) : (
         <Emulator 
-          jarFile={loadedGame.file}
+          archive={loadedGame.archive}
           manifest={loadedGame.manifest}
+          midlet={selectedMidlet}
+          libraryId={loadedGame.libraryId}
           onExit={handleExit}
         />
       )}
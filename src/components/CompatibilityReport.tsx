@@ -0,0 +1,91 @@
+/**
+ * Compatibility Report Component
+ * Lists the optional APIs a suite references and how well they are supported
+ */
+
+import React, { useEffect, useState } from 'react';
+import { type JarArchive } from '../utils/jarArchive';
+import { type CompatibilityReport as Report } from '../utils/apiCompatibility';
+import './CompatibilityReport.css';
+
+interface CompatibilityReportProps {
+  archive: JarArchive;
+}
+
+const SUPPORT_LABELS = {
+  supported: 'Supported',
+  stubbed: 'Stubbed',
+  missing: 'Missing',
+} as const;
+
+const CompatibilityReport: React.FC<CompatibilityReportProps> = ({ archive }) => {
+  const [scan, setScan] = useState<{ archive: JarArchive; report: Report | null; error: string | null } | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    archive.compatibility()
+      .then((report) => {
+        if (!cancelled) setScan({ archive, report, error: null });
+      })
+      .catch((err) => {
+        if (!cancelled) {
+          setScan({
+            archive,
+            report: null,
+            error: err instanceof Error ? err.message : 'Failed to scan classes',
+          });
+        }
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [archive]);
+
+  const current = scan?.archive === archive ? scan : null;
+  const report = current?.report;
+  const problems = report?.apis.filter((usage) => usage.api.support !== 'supported').length ?? 0;
+
+  return (
+    <details className="compat-report">
+      <summary>
+        API compatibility
+        {!current && <span className="compat-pending">Scanning classes…</span>}
+        {current?.error && <span className="compat-badge missing">Scan failed</span>}
+        {report && (
+          problems > 0
+            ? <span className="compat-badge stubbed">{problems} API{problems === 1 ? '' : 's'} not fully supported</span>
+            : <span className="compat-badge supported">All referenced APIs supported</span>
+        )}
+      </summary>
+
+      {current?.error && <p className="compat-note">{current.error}</p>}
+
+      {report && (
+        <>
+          <ul className="compat-list">
+            {report.apis.map(({ api, classes }) => (
+              <li key={api.id} className="compat-api">
+                <span className={`compat-badge ${api.support}`}>{SUPPORT_LABELS[api.support]}</span>
+                <span className="compat-name" title={classes.join('\n')}>{api.name}</span>
+                <span className="compat-classes">{classes.length} class{classes.length === 1 ? '' : 'es'}</span>
+              </li>
+            ))}
+          </ul>
+          {report.unknownPackages.length > 0 && (
+            <p className="compat-note">
+              Unknown packages: <code>{report.unknownPackages.join(', ')}</code>
+            </p>
+          )}
+          <p className="compat-note">
+            {report.classCount} classes scanned
+            {report.unreadableClasses.length > 0 && `, ${report.unreadableClasses.length} unreadable`}
+          </p>
+        </>
+      )}
+    </details>
+  );
+};
+
+export default CompatibilityReport;
@@ -0,0 +1,154 @@
+/**
+ * Embed Player Component
+ * The emulator alone, for iframes on other pages, driven through the
+ * embed protocol. Opened as ?embed[&src=<JAR URL>][&device=…][&scale=…][&keypad=false][&origin=…]
+ */
+
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import Emulator, { type EmulatorControls } from './Emulator';
+import { type EmulatorStatus } from '../hooks/useCheerpJ';
+import { installSuite, jarFileName, type InstalledSuite } from '../utils/otaInstaller';
+import {
+  EMBED_CHANNEL,
+  isEmbedMessage,
+  isValidCommand,
+  type EmbedCommandMessage,
+  type EmbedEventMessage,
+  type EmbedOptions,
+  type EmbedReplyMessage,
+} from '../utils/embedProtocol';
+import './EmbedPlayer.css';
+
+interface EmbedPlayerProps {
+  src: string | null;
+  options: EmbedOptions;
+  /** Origin of the hosting page; without one, commands are refused and no events are sent */
+  parentOrigin: string | null;
+}
+
+// Name the installer can recognise as a JAR
+function toJarFile(blob: Blob, url?: URL): File {
+  const name = blob instanceof File ? blob.name : url ? jarFileName(url.pathname) : '';
+  return new File([blob], /\.jar$/i.test(name) ? name : 'game.jar');
+}
+
+async function fetchSuite(source: string | Blob): Promise<InstalledSuite> {
+  if (source instanceof Blob) return installSuite([toJarFile(source)]);
+
+  const url = new URL(source, location.href);
+  const response = await fetch(url);
+  if (!response.ok) throw new Error(`${url}: HTTP ${response.status}`);
+  return installSuite([toJarFile(await response.blob(), url)]);
+}
+
+// The player has no library to go back to; only the MIDlet ending itself
+// is reported as an exit
+const ignoreExit = () => {};
+
+const EmbedPlayer: React.FC<EmbedPlayerProps> = ({ src, options: initialOptions, parentOrigin }) => {
+  const [suite, setSuite] = useState<InstalledSuite | null>(null);
+  const [options, setOptions] = useState(initialOptions);
+  const [isLoading, setIsLoading] = useState(src !== null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const controlsRef = useRef<EmulatorControls>(null);
+
+  const post = useCallback((message: EmbedEventMessage | EmbedReplyMessage) => {
+    if (parentOrigin && window.parent !== window) window.parent.postMessage(message, parentOrigin);
+  }, [parentOrigin]);
+
+  const emit = useCallback(<E extends EmbedEventMessage['event']>(
+    event: E,
+    detail: Extract<EmbedEventMessage, { event: E }>['detail']
+  ) => {
+    post({ channel: EMBED_CHANNEL, kind: 'event', event, detail } as EmbedEventMessage);
+  }, [post]);
+
+  const load = useCallback(async (source: string | Blob) => {
+    setIsLoading(true);
+    setLoadError(null);
+    try {
+      setSuite(await fetchSuite(source));
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Failed to load the game';
+      setLoadError(message);
+      emit('error', { message });
+      throw err;
+    } finally {
+      setIsLoading(false);
+    }
+  }, [emit]);
+
+  const run = useCallback(async (command: EmbedCommandMessage): Promise<unknown> => {
+    if (!isValidCommand(command)) throw new Error(`Invalid command: ${String(command.method)}`);
+    if (command.method === 'load') return load(...command.args);
+    if (command.method === 'configure') {
+      setOptions((current) => ({ ...current, ...command.args[0] }));
+      return;
+    }
+
+    const controls = controlsRef.current;
+    if (!controls) throw new Error('No game is loaded');
+    switch (command.method) {
+      case 'pressKey': return controls.pressKey(...command.args);
+      case 'pause': return controls.pause();
+      case 'resume': return controls.resume();
+      case 'screenshot': return controls.screenshot();
+    }
+  }, [load]);
+
+  // Commands from the hosting page, each answered with a reply
+  useEffect(() => {
+    if (!parentOrigin) return;
+
+    const handleMessage = (e: MessageEvent) => {
+      if (e.source !== window.parent || e.origin !== parentOrigin) return;
+      if (!isEmbedMessage(e.data) || e.data.kind !== 'command') return;
+
+      const { id } = e.data;
+      run(e.data).then(
+        (result) => post({ channel: EMBED_CHANNEL, kind: 'reply', id, result }),
+        (err) => post({ channel: EMBED_CHANNEL, kind: 'reply', id, error: err instanceof Error ? err.message : String(err) })
+      );
+    };
+
+    window.addEventListener('message', handleMessage);
+    emit('ready', null);
+    return () => window.removeEventListener('message', handleMessage);
+  }, [run, post, emit, parentOrigin]);
+
+  useEffect(() => {
+    if (src) load(src).catch(() => {});
+  }, [src, load]);
+
+  const handleStatusChange = useCallback((status: EmulatorStatus, error: string | null) => {
+    emit('status', { status });
+    if (status === 'error') emit('error', { message: error ?? 'The game failed' });
+  }, [emit]);
+
+  const handleMidletExit = useCallback(() => emit('exit', null), [emit]);
+
+  if (!suite) {
+    return (
+      <div className="embed-player-empty">
+        <p>{isLoading ? 'Loading game…' : loadError ?? 'No game loaded'}</p>
+      </div>
+    );
+  }
+
+  return (
+    <Emulator
+      archive={suite.archive}
+      manifest={suite.manifest}
+      onExit={ignoreExit}
+      embedded
+      profileId={options.device}
+      scaleMode={options.scale ?? 'fit'}
+      showKeypad={options.keypad ?? true}
+      onStatusChange={handleStatusChange}
+      onMidletExit={handleMidletExit}
+      controlsRef={controlsRef}
+    />
+  );
+};
+
+export default EmbedPlayer;
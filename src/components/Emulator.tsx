@@ -1,43 +1,336 @@
-import React, { useCallback, useEffect } from 'react';
+import React, { useCallback, useEffect, useImperativeHandle, useMemo, useRef, useState } from 'react';
 import VirtualKeypad from './VirtualKeypad';
-import useCheerpJ, { KEYBOARD_MAPPING } from '../hooks/useCheerpJ';
-import { type JARManifest } from '../utils/jarParser';
+import ManifestReport from './ManifestReport';
+import CompatibilityReport from './CompatibilityReport';
+import SettingsPanel from './SettingsPanel';
+import KeyMappingEditor from './KeyMappingEditor';
+import PointerLayer from './PointerLayer';
+import OverlayKeypad from './OverlayKeypad';
+import JavaConsole from './JavaConsole';
+import PerformanceHud from './PerformanceHud';
+import MacroPanel from './MacroPanel';
+import useCheerpJ, { type EmulatorStatus } from '../hooks/useCheerpJ';
+import useDeviceProfile from '../hooks/useDeviceProfile';
+import useKeyMapping from '../hooks/useKeyMapping';
+import useGamepads from '../hooks/useGamepads';
+import useDisplayOptions from '../hooks/useDisplayOptions';
+import useWindowSize from '../hooks/useWindowSize';
+import useScreenCapture from '../hooks/useScreenCapture';
+import usePlayTime from '../hooks/usePlayTime';
+import useJavaConsole from '../hooks/useJavaConsole';
+import useSettings from '../hooks/useSettings';
+import useInputMacro from '../hooks/useInputMacro';
+import { DEVICE_PROFILES, getDeviceProfile, toJavaProperties, translateKeyCode } from '../utils/deviceProfiles';
+import { describeKeyMapping, resolveKeyCode } from '../utils/keyMapping';
+import { setMasterVolume } from '../utils/audioEngine';
+import { MAX_GIF_SECONDS, captureScreenshot } from '../utils/screenCapture';
+import { createDiagnosticBundle } from '../utils/diagnostics';
+import { EMULATION_SPEEDS, type EmulationSpeed } from '../utils/runtimeClock';
+import { downloadBlob, toFileName } from '../utils/download';
+import {
+  computeScreenLayout,
+  computeScreenScale,
+  rotatedSize,
+  type ScaleMode,
+  type ScreenFilter,
+} from '../utils/screenLayout';
+import { getSuiteId, type JARManifest, type MIDletInfo } from '../utils/jarParser';
+import { type JarArchive } from '../utils/jarArchive';
 import './Emulator.css';
 
+const SCREEN_SIZE_ORIGINS = {
+  attribute: 'from manifest',
+  'file-name': 'from file name',
+  image: 'guessed from images',
+  default: 'default',
+} as const;
+
+const SCALE_MODES: Record<ScaleMode, string> = {
+  integer: 'Integer',
+  fit: 'Fit',
+  '1x': '1×',
+  '2x': '2×',
+  '3x': '3×',
+};
+
+const FILTERS: Record<ScreenFilter, string> = {
+  nearest: 'Sharp',
+  smooth: 'Smooth',
+};
+
+// Room taken around the screen by the page, header, phone frame and footer
+const FRAME_CHROME = { width: 120, height: 360 };
+
+// Embedded, the screen fills the frame, beside the keypad when shown
+const KEYPAD_WIDTH = 340;
+
+// Typing into a text field is not game input
+function isTextField(target: EventTarget | null): boolean {
+  return target instanceof HTMLElement
+    && (target.isContentEditable || target.matches('textarea, input[type="text"], input[type="url"], input[type="search"]'));
+}
+
+// How long pressKey holds a key when no release is given
+const KEY_TAP_MS = 100;
+
+/** Control of the running game from outside, e.g. an embedding page */
+export interface EmulatorControls {
+  pressKey: (keyCode: number, pressed?: boolean) => void;
+  pause: () => Promise<void>;
+  resume: () => Promise<void>;
+  screenshot: () => Promise<Blob>;
+}
+
 interface EmulatorProps {
-  jarFile: File | null;
+  archive: JarArchive | null;
   manifest: JARManifest | null;
+  midlet?: MIDletInfo | null;
+  /** Library entry of the game, whose play stats are kept up to date */
+  libraryId?: string | null;
   onExit: () => void;
+  /** Only the screen and keypad, without the header, panels and footer */
+  embedded?: boolean;
+  /** Device profile to use instead of the stored choice */
+  profileId?: string;
+  /** Scaling to use instead of the game's display options */
+  scaleMode?: ScaleMode;
+  showKeypad?: boolean;
+  onStatusChange?: (status: EmulatorStatus, error: string | null) => void;
+  /** Called when the MIDlet ends itself */
+  onMidletExit?: () => void;
+  controlsRef?: React.Ref<EmulatorControls>;
 }
 
-const Emulator: React.FC<EmulatorProps> = ({ jarFile, manifest, onExit }) => {
+const Emulator: React.FC<EmulatorProps> = ({
+  archive,
+  manifest,
+  midlet = null,
+  libraryId = null,
+  onExit,
+  embedded = false,
+  profileId,
+  scaleMode: scaleModeOverride,
+  showKeypad = true,
+  onStatusChange,
+  onMidletExit,
+  controlsRef,
+}) => {
   const { 
     status, 
     error: cheerpjError, 
     containerRef, 
     loadJAR, 
     stop, 
-    sendKeyEvent 
+    restart,
+    pause,
+    resume,
+    sendKeyEvent,
+    sendPointerEvent,
+    setKeyRepeat,
+    setScreenLayout,
+    getScreenCanvas,
+    setSpeed,
+    getFrameStats,
+    getMidletTime,
+    setInputListener,
+    timings
   } = useCheerpJ();
+  const [storedProfile, selectProfile] = useDeviceProfile();
+  const profile = profileId ? getDeviceProfile(profileId) : storedProfile;
+  const [settings, updateSettings] = useSettings();
   
-  const screenWidth = manifest?.screenWidth || 240;
-  const screenHeight = manifest?.screenHeight || 320;
+  const screenWidth = profile.screenWidth ?? (manifest?.screenWidth || 240);
+  const screenHeight = profile.screenHeight ?? (manifest?.screenHeight || 320);
+  const midletClass = midlet?.className || manifest?.className;
+  const suiteId = manifest ? getSuiteId(manifest.midletVendor, manifest.midletName) : undefined;
+  const keyMapping = useKeyMapping(suiteId);
+
+  const [isEditingKeys, setIsEditingKeys] = useState(false);
+  const [displayOptions, updateDisplayOptions] = useDisplayOptions(suiteId);
+  // Not saved: fast-forwarding is for the moment, every launch starts at 1×
+  const [speed, setSpeedOption] = useState<EmulationSpeed>('1');
+  const emulatorRef = useRef<HTMLDivElement>(null);
+  const windowSize = useWindowSize();
+
+  // Scale for the mode, within the window minus the surrounding chrome,
+  // or the whole window in fullscreen
+  const screenSize = useMemo(
+    () => ({ width: screenWidth, height: screenHeight }),
+    [screenWidth, screenHeight]
+  );
+  const { rotation, filter, fullscreen: isFullscreen } = displayOptions;
+  const scaleMode = scaleModeOverride ?? displayOptions.scaleMode;
+  const chrome = embedded ? { width: showKeypad ? KEYPAD_WIDTH : 0, height: 0 } : FRAME_CHROME;
+  const available = isFullscreen
+    ? windowSize
+    : {
+      width: Math.max(windowSize.width - chrome.width, screenWidth),
+      height: Math.max(windowSize.height - chrome.height, screenHeight),
+    };
+  const scale = computeScreenScale(scaleMode, screenSize, rotation, available);
+  const rotated = rotatedSize(screenSize, rotation);
+  const areaWidth = isFullscreen ? windowSize.width : Math.round(rotated.width * scale);
+  const areaHeight = isFullscreen ? windowSize.height : Math.round(rotated.height * scale);
+
+  const layout = useMemo(
+    () => computeScreenLayout({ width: areaWidth, height: areaHeight }, screenSize, rotation, scale),
+    [areaWidth, areaHeight, screenSize, rotation, scale]
+  );
+
+  const capture = useScreenCapture(getScreenCanvas, screenSize, manifest?.midletName || 'game');
+  const canCapture = status === 'running' || status === 'paused';
+  usePlayTime(libraryId, status === 'running');
+  const javaConsole = useJavaConsole();
+  const { log } = javaConsole;
+  const macros = useInputMacro({
+    restart,
+    getMidletTime,
+    setInputListener,
+    sendKeyEvent,
+    sendPointerEvent,
+    getScreenCanvas,
+    screen: screenSize,
+    game: manifest
+      ? { name: manifest.midletName, vendor: manifest.midletVendor, version: manifest.midletVersion }
+      : undefined,
+    device: profile.id,
+    onResult: (result) => log('status', `Macro ${result.passed ? 'PASS' : 'FAIL'}: ${result.name}: ${result.message}`),
+  });
+
+  // Scale the runtime's display to the screen area; pointer input is
+  // mapped back through the same layout
+  useEffect(() => {
+    setScreenLayout(layout, filter);
+  }, [setScreenLayout, layout, filter]);
 
-  // Load the JAR when the component mounts or jarFile changes
+  // Load the JAR when the component mounts or the archive changes
   useEffect(() => {
-    if (jarFile && manifest) {
-      loadJAR(jarFile, manifest.className, screenWidth, screenHeight).catch(console.error);
+    if (archive && midletClass) {
+      loadJAR(
+        archive.file,
+        midletClass,
+        screenWidth,
+        screenHeight,
+        {
+          javaProperties: toJavaProperties(profile),
+          translateKey: (keyCode) => translateKeyCode(profile, keyCode),
+          loaderUrl: settings.runtimeUrl,
+          onLog: log,
+          onExit: onMidletExit,
+        }
+      ).catch(console.error);
     }
     
     return () => {
       stop();
     };
-  }, [jarFile, manifest, loadJAR, stop, screenWidth, screenHeight]);
+  }, [archive, midletClass, loadJAR, stop, screenWidth, screenHeight, profile, settings.runtimeUrl, log, onMidletExit]);
+
+  useEffect(() => {
+    setSpeed(speed);
+  }, [setSpeed, speed]);
+
+  useEffect(() => {
+    onStatusChange?.(status, cheerpjError);
+  }, [onStatusChange, status, cheerpjError]);
+
+  useEffect(() => {
+    setMasterVolume(settings.volume, settings.muted);
+  }, [settings.volume, settings.muted]);
+
+  useEffect(() => {
+    setKeyRepeat({ delay: settings.keyRepeatDelay, interval: settings.keyRepeatInterval });
+  }, [setKeyRepeat, settings.keyRepeatDelay, settings.keyRepeatInterval]);
+
+  // Pause automatically while the tab is hidden or the page loses focus,
+  // and resume only what was paused automatically. Focus moving into the
+  // runtime frame leaves the document focused, so it does not pause.
+  const autoPausedRef = useRef(false);
+
+  useEffect(() => {
+    const frameWindow = containerRef.current?.querySelector('iframe')?.contentWindow ?? null;
+    let pending: ReturnType<typeof setTimeout> | undefined;
+
+    const update = () => {
+      if (document.visibilityState === 'hidden' || !document.hasFocus()) {
+        if (status === 'running') {
+          autoPausedRef.current = true;
+          pause();
+        }
+      } else if (status === 'paused' && autoPausedRef.current) {
+        autoPausedRef.current = false;
+        resume();
+      }
+    };
+
+    // Focus lands on its new target only after the blur
+    const handleFocusChange = () => {
+      clearTimeout(pending);
+      pending = setTimeout(update, 0);
+    };
+
+    document.addEventListener('visibilitychange', update);
+    for (const target of [window, frameWindow]) {
+      target?.addEventListener('blur', handleFocusChange);
+      target?.addEventListener('focus', handleFocusChange);
+    }
+    return () => {
+      clearTimeout(pending);
+      document.removeEventListener('visibilitychange', update);
+      for (const target of [window, frameWindow]) {
+        target?.removeEventListener('blur', handleFocusChange);
+        target?.removeEventListener('focus', handleFocusChange);
+      }
+    };
+  }, [status, pause, resume, containerRef]);
+
+  const handleTogglePause = useCallback(() => {
+    autoPausedRef.current = false;
+    if (status === 'paused') {
+      resume();
+    } else {
+      pause();
+    }
+  }, [status, pause, resume]);
+
+  const handleRestart = useCallback(() => {
+    autoPausedRef.current = false;
+    restart().catch(console.error);
+  }, [restart]);
+
+  // Fullscreen hides everything but the screen. The browser's fullscreen
+  // is used where available, the CSS layout alone elsewhere and when a
+  // saved fullscreen game is reopened, as only a user gesture can enter it.
+  const toggleFullscreen = useCallback(() => {
+    if (isFullscreen) {
+      if (document.fullscreenElement) document.exitFullscreen().catch(() => {});
+      updateDisplayOptions({ fullscreen: false });
+    } else {
+      updateDisplayOptions({ fullscreen: true });
+      emulatorRef.current?.requestFullscreen?.().catch(() => {});
+    }
+  }, [isFullscreen, updateDisplayOptions]);
+
+  useEffect(() => {
+    const handleFullscreenChange = () => {
+      if (!document.fullscreenElement) updateDisplayOptions({ fullscreen: false });
+    };
+
+    document.addEventListener('fullscreenchange', handleFullscreenChange);
+    return () => document.removeEventListener('fullscreenchange', handleFullscreenChange);
+  }, [updateDisplayOptions]);
+
+  useEffect(() => () => {
+    if (document.fullscreenElement) document.exitFullscreen().catch(() => {});
+  }, []);
 
   // Handle keyboard events
+  const { mapping } = keyMapping;
+
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
-      const keyCode = KEYBOARD_MAPPING[e.code];
+      if (isTextField(e.target)) return;
+      const keyCode = resolveKeyCode(mapping, e.code);
       if (keyCode !== undefined) {
         e.preventDefault();
         sendKeyEvent(keyCode, true);
@@ -45,7 +338,7 @@ const Emulator: React.FC<EmulatorProps> = ({ jarFile, manifest, onExit }) => {
     };
 
     const handleKeyUp = (e: KeyboardEvent) => {
-      const keyCode = KEYBOARD_MAPPING[e.code];
+      const keyCode = resolveKeyCode(mapping, e.code);
       if (keyCode !== undefined) {
         e.preventDefault();
         sendKeyEvent(keyCode, false);
@@ -59,31 +352,193 @@ const Emulator: React.FC<EmulatorProps> = ({ jarFile, manifest, onExit }) => {
       window.removeEventListener('keydown', handleKeyDown);
       window.removeEventListener('keyup', handleKeyUp);
     };
-  }, [sendKeyEvent]);
+  }, [sendKeyEvent, mapping]);
+
+  const handleDownloadDiagnostics = useCallback(async () => {
+    if (!archive || !manifest) return;
+
+    try {
+      const bundle = await createDiagnosticBundle({
+        archive,
+        manifest,
+        midlet,
+        entries: javaConsole.entries,
+        status,
+        error: cheerpjError,
+        settings: { settings, deviceProfile: profile, displayOptions, keyMapping: mapping },
+      });
+      const timestamp = new Date().toISOString().slice(0, 19).replace(/[:T]/g, '-');
+      downloadBlob(bundle, `${toFileName(manifest.midletName)}-diagnostics-${timestamp}.zip`);
+    } catch (err) {
+      log('exception', `Could not build the diagnostic bundle: ${err instanceof Error ? err.message : err}`);
+    }
+  }, [archive, manifest, midlet, javaConsole.entries, status, cheerpjError, settings, profile, displayOptions, mapping, log]);
 
   // Handle key press from virtual keypad
   const handleKeyPress = useCallback((keyCode: number, pressed: boolean) => {
     sendKeyEvent(keyCode, pressed);
   }, [sendKeyEvent]);
 
+  useImperativeHandle(controlsRef, () => ({
+    pressKey: (keyCode, pressed) => {
+      if (pressed !== undefined) {
+        sendKeyEvent(keyCode, pressed);
+        return;
+      }
+      sendKeyEvent(keyCode, true);
+      setTimeout(() => sendKeyEvent(keyCode, false), KEY_TAP_MS);
+    },
+    pause: () => {
+      autoPausedRef.current = false;
+      return pause();
+    },
+    resume: () => {
+      autoPausedRef.current = false;
+      return resume();
+    },
+    screenshot: () => {
+      const canvas = getScreenCanvas();
+      if (!canvas) return Promise.reject(new Error('No game is running'));
+      return captureScreenshot(canvas, screenSize);
+    },
+  }), [sendKeyEvent, pause, resume, getScreenCanvas, screenSize]);
+
+  // Controllers feed the same path as the keypad
+  const gamepads = useGamepads({
+    buttons: settings.gamepadButtons,
+    deadZone: settings.gamepadDeadZone,
+    onKey: handleKeyPress,
+  });
+
   return (
-    <div className="emulator">
-      <div className="emulator-header">
-        <div className="game-info">
-          <h2 className="game-title">{manifest?.midletName || 'Unknown Game'}</h2>
-          <span className="game-meta">
-            {manifest?.midletVendor} • v{manifest?.midletVersion}
-          </span>
-        </div>
-        <div className="emulator-actions">
-          <button className="btn btn-secondary" onClick={onExit}>
-            <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" width="16" height="16">
-              <path d="M19 12H5M12 19l-7-7 7-7" />
-            </svg>
-            Exit
-          </button>
+    <div className={`emulator ${isFullscreen ? 'fullscreen' : ''} ${embedded ? 'embedded' : ''}`} ref={emulatorRef}>
+      {!embedded && (
+        <div className="emulator-header">
+          <div className="game-info">
+            <h2 className="game-title">{manifest?.midletName || 'Unknown Game'}</h2>
+            {midlet && midlet.name !== manifest?.midletName && (
+              <span className="game-midlet">{midlet.name}</span>
+            )}
+            <span className="game-meta">
+              {manifest?.midletVendor} • v{manifest?.midletVersion}
+            </span>
+          </div>
+          <div className="emulator-actions">
+            <select
+              className="profile-select"
+              value={profile.id}
+              onChange={(e) => selectProfile(e.target.value)}
+              title="Device profile"
+            >
+              {DEVICE_PROFILES.map((p) => (
+                <option key={p.id} value={p.id}>{p.name}</option>
+              ))}
+            </select>
+            <div className="volume-control">
+              <button
+                className="btn btn-secondary"
+                onClick={() => updateSettings({ muted: !settings.muted })}
+                title={settings.muted ? 'Unmute' : 'Mute'}
+              >
+                <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" width="16" height="16">
+                  <polygon points="11 5 6 9 2 9 2 15 6 15 11 19 11 5" />
+                  {settings.muted ? (
+                    <path d="M23 9l-6 6M17 9l6 6" />
+                  ) : (
+                    <path d="M15.54 8.46a5 5 0 0 1 0 7.07M19.07 4.93a10 10 0 0 1 0 14.14" />
+                  )}
+                </svg>
+              </button>
+              <input
+                type="range"
+                min={0}
+                max={1}
+                step={0.05}
+                value={settings.muted ? 0 : settings.volume}
+                onChange={(e) => updateSettings({ volume: Number(e.target.value), muted: false })}
+                title="Volume"
+              />
+            </div>
+            <button className="btn btn-secondary" onClick={() => setIsEditingKeys(true)}>
+              <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" width="16" height="16">
+                <rect x="2" y="6" width="20" height="12" rx="2" />
+                <path d="M6 10h.01M10 10h.01M14 10h.01M18 10h.01M8 14h8" />
+              </svg>
+              Controls
+            </button>
+            <button
+              className="btn btn-secondary"
+              onClick={handleTogglePause}
+              disabled={status !== 'running' && status !== 'paused'}
+            >
+              {status === 'paused' ? (
+                <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" width="16" height="16">
+                  <polygon points="6 4 20 12 6 20 6 4" />
+                </svg>
+              ) : (
+                <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" width="16" height="16">
+                  <rect x="6" y="4" width="4" height="16" />
+                  <rect x="14" y="4" width="4" height="16" />
+                </svg>
+              )}
+              {status === 'paused' ? 'Resume' : 'Pause'}
+            </button>
+            <button
+              className="btn btn-secondary"
+              onClick={handleRestart}
+              disabled={status === 'loading' || status === 'initializing'}
+            >
+              <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" width="16" height="16">
+                <polyline points="1 4 1 10 7 10" />
+                <path d="M3.51 15a9 9 0 1 0 2.13-9.36L1 10" />
+              </svg>
+              Restart
+            </button>
+            <button
+              className="btn btn-secondary"
+              onClick={capture.takeScreenshot}
+              disabled={!canCapture}
+              title="Screenshot (PNG, native resolution)"
+            >
+              <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" width="16" height="16">
+                <path d="M23 19a2 2 0 0 1-2 2H3a2 2 0 0 1-2-2V8a2 2 0 0 1 2-2h4l2-3h6l2 3h4a2 2 0 0 1 2 2z" />
+                <circle cx="12" cy="13" r="4" />
+              </svg>
+            </button>
+            <button
+              className={`btn btn-secondary ${capture.recording === 'video' ? 'recording' : ''}`}
+              onClick={() => capture.toggleRecording('video')}
+              disabled={!canCapture || capture.recording === 'gif'}
+              title={capture.recording === 'video' ? 'Stop recording' : 'Record video (WebM, with beeps only)'}
+            >
+              <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" width="16" height="16">
+                {capture.recording === 'video' ? (
+                  <rect x="6" y="6" width="12" height="12" />
+                ) : (
+                  <circle cx="12" cy="12" r="6" />
+                )}
+              </svg>
+              {capture.recording === 'video' ? 'Stop' : 'Rec'}
+            </button>
+            <button
+              className={`btn btn-secondary ${capture.recording === 'gif' ? 'recording' : ''}`}
+              onClick={() => capture.toggleRecording('gif')}
+              disabled={!canCapture || capture.recording === 'video'}
+              title={capture.recording === 'gif'
+                ? 'Stop and save GIF'
+                : `Record GIF clip (up to ${MAX_GIF_SECONDS} s)`}
+            >
+              {capture.recording === 'gif' ? 'Save GIF' : 'GIF'}
+            </button>
+            <button className="btn btn-secondary" onClick={onExit}>
+              <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" width="16" height="16">
+                <path d="M19 12H5M12 19l-7-7 7-7" />
+              </svg>
+              Exit
+            </button>
+          </div>
         </div>
-      </div>
+      )}
 
       <div className="emulator-content">
         <div className="phone-frame">
@@ -92,48 +547,174 @@ const Emulator: React.FC<EmulatorProps> = ({ jarFile, manifest, onExit }) => {
             className="screen-container"
             ref={containerRef as React.RefObject<HTMLDivElement>}
             style={{
-              width: screenWidth * 1.5,
-              height: screenHeight * 1.5,
+              width: areaWidth,
+              height: areaHeight,
             }}
           >
-            {/* CheerpJ will render canvas here */}
-            
+            {/* CheerpJ renders into a runtime frame here */}
+            <PointerLayer
+              layout={layout}
+              enabled={profile.hasPointerEvents && status === 'running'}
+              onPointer={sendPointerEvent}
+            />
+            {settings.showPerformanceHud && (
+              <PerformanceHud getFrameStats={getFrameStats} timings={timings} />
+            )}
+
             {(status === 'loading' || status === 'initializing') && (
               <div className="screen-overlay">
                 <div className="spinner"></div>
               </div>
             )}
+            {status === 'paused' && (
+              <div className="screen-overlay paused">
+                <button className="btn btn-primary" onClick={handleTogglePause}>
+                  Resume
+                </button>
+              </div>
+            )}
             {status === 'error' && (
               <div className="screen-overlay error">
                 <span>{cheerpjError || 'An error occurred'}</span>
               </div>
             )}
+            {capture.error && (
+              <div className="capture-error" role="alert">{capture.error}</div>
+            )}
           </div>
           <div className="phone-brand">J2ME Browser</div>
         </div>
 
-        <VirtualKeypad 
-          onKeyPress={handleKeyPress}
-          disabled={status !== 'running'}
-        />
+        {showKeypad && (
+          <VirtualKeypad 
+            onKeyPress={handleKeyPress}
+            disabled={status !== 'running'}
+            keyboardHint={describeKeyMapping(mapping, keyMapping.layout)}
+          />
+        )}
       </div>
 
-      <div className="emulator-footer">
-        <div className="status-indicator">
-          <span className={`status-dot ${status}`}></span>
-          <span className="status-text">
-            {status === 'loading' && 'Loading game...'}
-            {status === 'initializing' && 'Initializing Emulator...'}
-            {status === 'running' && 'Game running'}
-            {status === 'paused' && 'Paused'}
-            {status === 'error' && 'Error'}
-            {status === 'idle' && 'Ready'}
-          </span>
-        </div>
-        <div className="screen-size">
-          {screenWidth} × {screenHeight}
+      {!embedded && (
+        <>
+          {manifest && (
+            <ManifestReport issues={manifest.manifestIssues} encoding={manifest.manifestEncoding} />
+          )}
+          {archive && <CompatibilityReport archive={archive} />}
+          <JavaConsole
+            entries={javaConsole.entries}
+            onClear={javaConsole.clear}
+            onDownloadDiagnostics={handleDownloadDiagnostics}
+            canDownload={archive !== null && manifest !== null}
+          />
+          <MacroPanel
+            mode={macros.mode}
+            macro={macros.macro}
+            results={macros.results}
+            error={macros.error}
+            canStart={status === 'running'}
+            onRecord={macros.startRecording}
+            onStop={macros.stop}
+            onAddAssertion={macros.addAssertion}
+            onPlay={macros.play}
+          />
+          <SettingsPanel settings={settings} onChange={updateSettings} gamepads={gamepads} />
+        </>
+      )}
+
+      {isEditingKeys && (
+        <KeyMappingEditor
+          mapping={mapping}
+          scope={keyMapping.scope}
+          layout={keyMapping.layout}
+          canSaveForGame={suiteId !== undefined}
+          onSave={keyMapping.saveMapping}
+          onResetGame={keyMapping.clearGameMapping}
+          onClose={() => setIsEditingKeys(false)}
+        />
+      )}
+
+      {isFullscreen && (
+        <OverlayKeypad onKeyPress={handleKeyPress} onExitFullscreen={toggleFullscreen} />
+      )}
+
+      {!embedded && (
+        <div className="emulator-footer">
+          <div className="status-indicator">
+            <span className={`status-dot ${status}`}></span>
+            <span className="status-text">
+              {status === 'loading' && 'Loading game...'}
+              {status === 'initializing' && 'Initializing Emulator...'}
+              {status === 'running' && 'Game running'}
+              {status === 'paused' && 'Paused'}
+              {status === 'error' && 'Error'}
+              {status === 'idle' && 'Ready'}
+            </span>
+          </div>
+          <div className="display-controls">
+            <select
+              value={scaleMode}
+              onChange={(e) => updateDisplayOptions({ scaleMode: e.target.value as ScaleMode })}
+              title="Scaling"
+            >
+              {Object.entries(SCALE_MODES).map(([mode, label]) => (
+                <option key={mode} value={mode}>{label}</option>
+              ))}
+            </select>
+            <select
+              value={filter}
+              onChange={(e) => updateDisplayOptions({ filter: e.target.value as ScreenFilter })}
+              title="Filtering"
+            >
+              {Object.entries(FILTERS).map(([value, label]) => (
+                <option key={value} value={value}>{label}</option>
+              ))}
+            </select>
+            <button
+              className={`btn btn-secondary ${rotation !== 0 ? 'active' : ''}`}
+              onClick={() => updateDisplayOptions({ rotation: rotation === 0 ? 90 : 0 })}
+              title="Rotate 90°"
+            >
+              <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" width="16" height="16">
+                <polyline points="23 4 23 10 17 10" />
+                <path d="M20.49 15a9 9 0 1 1-2.12-9.36L23 10" />
+              </svg>
+            </button>
+            <select
+              value={speed}
+              onChange={(e) => setSpeedOption(e.target.value as EmulationSpeed)}
+              title="Emulation speed"
+            >
+              {Object.entries(EMULATION_SPEEDS).map(([value, label]) => (
+                <option key={value} value={value}>{label}</option>
+              ))}
+            </select>
+            <button
+              className={`btn btn-secondary ${settings.showPerformanceHud ? 'active' : ''}`}
+              onClick={() => updateSettings({ showPerformanceHud: !settings.showPerformanceHud })}
+              title="Performance overlay"
+            >
+              <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" width="16" height="16">
+                <polyline points="22 12 18 12 15 21 9 3 6 12 2 12" />
+              </svg>
+            </button>
+            <button className="btn btn-secondary" onClick={toggleFullscreen} title="Fullscreen">
+              <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" width="16" height="16">
+                <path d="M8 3H5a2 2 0 0 0-2 2v3m18 0V5a2 2 0 0 0-2-2h-3m0 18h3a2 2 0 0 0 2-2v-3M3 16v3a2 2 0 0 0 2 2h3" />
+              </svg>
+            </button>
+          </div>
+          <div className="screen-size" title={manifest?.screenSizeSource.detail}>
+            {screenWidth} × {screenHeight}
+            {profile.screenWidth !== null ? (
+              <span className="screen-size-source">from {profile.name}</span>
+            ) : manifest && (
+              <span className="screen-size-source">
+                {SCREEN_SIZE_ORIGINS[manifest.screenSizeSource.origin]}
+              </span>
+            )}
+          </div>
         </div>
-      </div>
+      )}
     </div>
   );
 };
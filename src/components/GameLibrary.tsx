@@ -0,0 +1,205 @@
+/**
+ * Game Library Component
+ * Grid of imported games with search, sorting, favourites and play stats
+ */
+
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { deleteGame, listGames, setFavorite, type LibraryGame } from '../utils/gameLibrary';
+import './GameLibrary.css';
+
+type SortOrder = 'recent' | 'name' | 'playtime' | 'added';
+
+const SORT_ORDERS: Record<SortOrder, string> = {
+  recent: 'Recently played',
+  name: 'Name',
+  playtime: 'Most played',
+  added: 'Recently added',
+};
+
+const COMPARATORS: Record<SortOrder, (a: LibraryGame, b: LibraryGame) => number> = {
+  recent: (a, b) => (b.lastPlayedAt ?? 0) - (a.lastPlayedAt ?? 0) || b.addedAt - a.addedAt,
+  name: (a, b) => a.manifest.midletName.localeCompare(b.manifest.midletName),
+  playtime: (a, b) => b.playTime - a.playTime,
+  added: (a, b) => b.addedAt - a.addedAt,
+};
+
+const relativeTime = new Intl.RelativeTimeFormat(undefined, { numeric: 'auto' });
+
+function formatLastPlayed(time: number | null): string {
+  if (time === null) return 'Never played';
+
+  const minutes = Math.round((time - Date.now()) / 60000);
+  if (minutes > -60) return `Played ${relativeTime.format(minutes, 'minute')}`;
+  const hours = Math.round(minutes / 60);
+  if (hours > -24) return `Played ${relativeTime.format(hours, 'hour')}`;
+  return `Played ${relativeTime.format(Math.round(hours / 24), 'day')}`;
+}
+
+function formatPlayTime(ms: number): string {
+  const minutes = Math.floor(ms / 60000);
+  if (minutes < 1) return '< 1 min';
+  if (minutes < 60) return `${minutes} min`;
+  return `${Math.floor(minutes / 60)} h ${minutes % 60} min`;
+}
+
+interface GameLibraryProps {
+  onLaunch: (game: LibraryGame) => void;
+  /** Changed by the parent to reload the games, e.g. during a batch import */
+  revision?: number;
+}
+
+const GameLibrary: React.FC<GameLibraryProps> = ({ onLaunch, revision = 0 }) => {
+  const [games, setGames] = useState<LibraryGame[]>([]);
+  const [query, setQuery] = useState('');
+  const [sortOrder, setSortOrder] = useState<SortOrder>('recent');
+  const [favoritesOnly, setFavoritesOnly] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    try {
+      setGames(await listGames());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to read the library');
+    }
+  }, []);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    listGames()
+      .then((result) => {
+        if (!cancelled) setGames(result);
+      })
+      .catch((err) => {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to read the library');
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [revision]);
+
+  const visibleGames = useMemo(() => {
+    const terms = query.trim().toLowerCase();
+    return games
+      .filter((game) => !favoritesOnly || game.favorite)
+      .filter((game) => {
+        if (!terms) return true;
+        const { midletName, midletVendor } = game.manifest;
+        return `${midletName} ${midletVendor} ${game.fileName}`.toLowerCase().includes(terms);
+      })
+      .sort((a, b) => Number(b.favorite) - Number(a.favorite) || COMPARATORS[sortOrder](a, b));
+  }, [games, query, sortOrder, favoritesOnly]);
+
+  const handleFavorite = useCallback(async (game: LibraryGame) => {
+    try {
+      await setFavorite(game.id, !game.favorite);
+      await refresh();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update the game');
+    }
+  }, [refresh]);
+
+  const handleDelete = useCallback(async (game: LibraryGame) => {
+    if (!window.confirm(`Remove "${game.manifest.midletName}" from the library?`)) return;
+
+    try {
+      await deleteGame(game.id);
+      await refresh();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to remove the game');
+    }
+  }, [refresh]);
+
+  if (games.length === 0 && !error) return null;
+
+  return (
+    <div className="game-library">
+      <div className="library-header">
+        <h3>Library</h3>
+        <div className="library-filters">
+          <input
+            type="search"
+            className="library-search"
+            placeholder="Search games"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+          />
+          <select
+            value={sortOrder}
+            onChange={(e) => setSortOrder(e.target.value as SortOrder)}
+            aria-label="Sort games"
+          >
+            {Object.entries(SORT_ORDERS).map(([value, label]) => (
+              <option key={value} value={value}>{label}</option>
+            ))}
+          </select>
+          <label className="library-favorites-toggle">
+            <input
+              type="checkbox"
+              checked={favoritesOnly}
+              onChange={(e) => setFavoritesOnly(e.target.checked)}
+            />
+            Favourites
+          </label>
+        </div>
+      </div>
+
+      {error && <p className="library-error">{error}</p>}
+
+      {visibleGames.length === 0 ? (
+        <p className="library-empty">No games match.</p>
+      ) : (
+        <ul className="library-grid">
+          {visibleGames.map((game) => (
+            <li key={game.id} className="library-card">
+              <button
+                className="library-launch"
+                onClick={() => onLaunch(game)}
+                title={`Play ${game.manifest.midletName}`}
+              >
+                <span className="library-icon">
+                  {game.icon ? (
+                    <img src={game.icon} alt="" />
+                  ) : (
+                    <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                      <rect x="5" y="2" width="14" height="20" rx="2" ry="2" />
+                      <circle cx="12" cy="18" r="1" />
+                    </svg>
+                  )}
+                </span>
+                <span className="library-name">{game.manifest.midletName}</span>
+                <span className="library-meta">
+                  {game.manifest.midletVendor} • v{game.manifest.midletVersion}
+                </span>
+                <span className="library-stats">
+                  {formatLastPlayed(game.lastPlayedAt)}
+                  {game.playTime > 0 && ` • ${formatPlayTime(game.playTime)}`}
+                </span>
+              </button>
+              <div className="library-card-actions">
+                <button
+                  className={`library-favorite ${game.favorite ? 'active' : ''}`}
+                  onClick={() => handleFavorite(game)}
+                  aria-label={game.favorite ? 'Remove from favourites' : 'Add to favourites'}
+                  aria-pressed={game.favorite}
+                >
+                  {game.favorite ? '★' : '☆'}
+                </button>
+                <button
+                  className="library-delete"
+                  onClick={() => handleDelete(game)}
+                  aria-label={`Remove ${game.manifest.midletName}`}
+                >
+                  ×
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default GameLibrary;
@@ -1,37 +1,118 @@
 /**
  * JAR Loader Component
- * Drag-and-drop and file picker for loading J2ME games
+ * Drag-and-drop and file picker for loading J2ME games, one suite to
+ * play right away or whole collections into the library
  */
 
 import React, { useCallback, useState, useRef } from 'react';
-import { parseJAR, type JARManifest } from '../utils/jarParser';
+import { type JARManifest } from '../utils/jarParser';
+import { type JarArchive } from '../utils/jarArchive';
+import { installSuite } from '../utils/otaInstaller';
+import {
+  expandCollections,
+  fromEntries,
+  fromFiles,
+  importSuites,
+  pairSuites,
+  type ImportResult,
+  type ImportSource,
+} from '../utils/batchImport';
 import './JarLoader.css';
 
 interface JarLoaderProps {
-  onJarLoaded: (file: File, manifest: JARManifest) => void;
+  onJarLoaded: (archive: JarArchive, manifest: JARManifest) => void;
+  /** Called as games of a batch import land in the library */
+  onBatchImported?: () => void;
   isLoading?: boolean;
 }
 
-const JarLoader: React.FC<JarLoaderProps> = ({ onJarLoaded, isLoading = false }) => {
+interface BatchState {
+  results: ImportResult[];
+  done: boolean;
+}
+
+// Re-render at most this often while importing large collections
+const PROGRESS_INTERVAL_MS = 250;
+
+const STATUS_LABELS: Record<ImportResult['status'], string> = {
+  pending: 'Pending',
+  ok: 'OK',
+  warnings: 'Warnings',
+  failed: 'Failed',
+};
+
+const JarLoader: React.FC<JarLoaderProps> = ({ onJarLoaded, onBatchImported, isLoading = false }) => {
   const [isDragging, setIsDragging] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [batch, setBatch] = useState<BatchState | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
-  const handleFile = useCallback(async (file: File) => {
-    if (!file.name.toLowerCase().endsWith('.jar')) {
-      setError('Please select a valid JAR file');
-      return;
-    }
-
+  const handleFiles = useCallback(async (files: File[]) => {
     try {
       setError(null);
-      const manifest = await parseJAR(file);
-      onJarLoaded(file, manifest);
+      const { archive, manifest } = await installSuite(files);
+      onJarLoaded(archive, manifest);
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to parse JAR file');
     }
   }, [onJarLoaded]);
 
+  const handleBatch = useCallback(async (sources: ImportSource[]) => {
+    setError(null);
+    setBatch({ results: [], done: false });
+
+    try {
+      const expanded = await expandCollections(sources);
+      const groups = await pairSuites(expanded.sources);
+      if (groups.length === 0 && expanded.failures.length === 0) {
+        setBatch(null);
+        setError('No JAR or JAD files found');
+        return;
+      }
+
+      const results: ImportResult[] = [
+        ...expanded.failures,
+        ...groups.map((group): ImportResult => ({ name: group.name, status: 'pending', message: null })),
+      ];
+      const offset = expanded.failures.length;
+      let lastUpdate = 0;
+      setBatch({ results: [...results], done: false });
+
+      await importSuites(groups, (index, result) => {
+        results[offset + index] = result;
+        const now = performance.now();
+        if (now - lastUpdate >= PROGRESS_INTERVAL_MS) {
+          lastUpdate = now;
+          setBatch({ results: [...results], done: false });
+          onBatchImported?.();
+        }
+      });
+
+      setBatch({ results, done: true });
+      onBatchImported?.();
+    } catch (err) {
+      setBatch(null);
+      setError(err instanceof Error ? err.message : 'Import failed');
+    }
+  }, [onBatchImported]);
+
+  // A single suite is played right away; folders, ZIPs and several
+  // suites go to the library
+  const handleSources = useCallback(async (sources: ImportSource[], files: File[]) => {
+    const isPlainSelection = files.length === sources.length
+      && sources.every((source) => !source.path.includes('/') && !/\.zip$/i.test(source.path));
+
+    try {
+      if (isPlainSelection && (await pairSuites(sources)).length <= 1) {
+        await handleFiles(files);
+      } else {
+        await handleBatch(sources);
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Import failed');
+    }
+  }, [handleFiles, handleBatch]);
+
   const handleDragEnter = useCallback((e: React.DragEvent) => {
     e.preventDefault();
     e.stopPropagation();
@@ -54,18 +135,28 @@ const JarLoader: React.FC<JarLoaderProps> = ({ onJarLoaded, isLoading = false })
     e.stopPropagation();
     setIsDragging(false);
 
-    const files = e.dataTransfer.files;
-    if (files.length > 0) {
-      handleFile(files[0]);
+    const files = Array.from(e.dataTransfer.files);
+    // Entries are only readable during the drop event itself
+    const entries = Array.from(e.dataTransfer.items)
+      .map((item) => item.webkitGetAsEntry?.() ?? null)
+      .filter((entry): entry is FileSystemEntry => entry !== null);
+
+    if (entries.length > 0) {
+      fromEntries(entries)
+        .then((sources) => handleSources(sources, files))
+        .catch(() => handleSources(fromFiles(files), files));
+    } else if (files.length > 0) {
+      handleSources(fromFiles(files), files);
     }
-  }, [handleFile]);
+  }, [handleSources]);
 
   const handleFileSelect = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
     const files = e.target.files;
     if (files && files.length > 0) {
-      handleFile(files[0]);
+      handleSources(fromFiles(Array.from(files)), Array.from(files));
     }
-  }, [handleFile]);
+    e.target.value = '';
+  }, [handleSources]);
 
   const handleClick = useCallback(() => {
     fileInputRef.current?.click();
@@ -84,7 +175,8 @@ const JarLoader: React.FC<JarLoaderProps> = ({ onJarLoaded, isLoading = false })
         <input
           ref={fileInputRef}
           type="file"
-          accept=".jar"
+          accept=".jar,.jad,.zip"
+          multiple
           onChange={handleFileSelect}
           className="file-input"
         />
@@ -105,7 +197,10 @@ const JarLoader: React.FC<JarLoaderProps> = ({ onJarLoaded, isLoading = false })
             </div>
             <h3 className="loader-title">Load J2ME Game</h3>
             <p className="loader-subtitle">
-              Drag & drop a <strong>.jar</strong> file here
+              Drag & drop a <strong>.jar</strong> file, or a <strong>.jad</strong> with its <strong>.jar</strong>
+            </p>
+            <p className="loader-hint">
+              Folders, <strong>.zip</strong> collections and several games at once go to the library
             </p>
             <span className="or-divider">or</span>
             <button className="btn btn-primary browse-btn" type="button">
@@ -125,6 +220,40 @@ const JarLoader: React.FC<JarLoaderProps> = ({ onJarLoaded, isLoading = false })
           <span>{error}</span>
         </div>
       )}
+
+      {batch && <BatchProgress batch={batch} onDismiss={() => setBatch(null)} />}
+    </div>
+  );
+};
+
+const BatchProgress: React.FC<{ batch: BatchState; onDismiss: () => void }> = ({ batch, onDismiss }) => {
+  const counts = { pending: 0, ok: 0, warnings: 0, failed: 0 };
+  for (const result of batch.results) counts[result.status]++;
+  const finished = batch.results.length - counts.pending;
+
+  return (
+    <div className="batch-import">
+      <div className="batch-summary">
+        <span>
+          {batch.done ? 'Imported' : 'Importing'} {finished} of {batch.results.length}
+          {' • '}{counts.ok} OK • {counts.warnings} with warnings • {counts.failed} failed
+        </span>
+        {batch.done && (
+          <button className="batch-dismiss" onClick={onDismiss}>
+            Dismiss
+          </button>
+        )}
+      </div>
+      <progress max={Math.max(batch.results.length, 1)} value={finished} />
+      <ul className="batch-results">
+        {batch.results.map((result, index) => (
+          <li key={index} className={`batch-result ${result.status}`}>
+            <span className="batch-status">{STATUS_LABELS[result.status]}</span>
+            <span className="batch-name">{result.name}</span>
+            {result.message && <span className="batch-message">{result.message}</span>}
+          </li>
+        ))}
+      </ul>
     </div>
   );
 };
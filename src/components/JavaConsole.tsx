@@ -0,0 +1,119 @@
+/**
+ * Java Console Component
+ * Collapsible view of the MIDlet's output, exceptions and status changes,
+ * with filters, search and the diagnostic bundle download
+ */
+
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { type LogEntry, type LogLevel } from '../utils/javaConsole';
+import './JavaConsole.css';
+
+const LEVELS: Record<LogLevel, string> = {
+  stdout: 'Output',
+  stderr: 'Errors',
+  exception: 'Exceptions',
+  status: 'Status',
+};
+
+interface JavaConsoleProps {
+  entries: LogEntry[];
+  onClear: () => void;
+  onDownloadDiagnostics: () => void;
+  canDownload: boolean;
+}
+
+function formatTime(time: number): string {
+  return new Date(time).toLocaleTimeString(undefined, { hour12: false });
+}
+
+const JavaConsole: React.FC<JavaConsoleProps> = ({ entries, onClear, onDownloadDiagnostics, canDownload }) => {
+  const [levels, setLevels] = useState<Record<LogLevel, boolean>>({
+    stdout: true,
+    stderr: true,
+    exception: true,
+    status: true,
+  });
+  const [query, setQuery] = useState('');
+  const listRef = useRef<HTMLOListElement>(null);
+  // Follow new output unless the user scrolled up to read
+  const followRef = useRef(true);
+
+  const visible = useMemo(() => {
+    const terms = query.trim().toLowerCase();
+    return entries.filter((entry) => levels[entry.level] && (!terms || entry.text.toLowerCase().includes(terms)));
+  }, [entries, levels, query]);
+
+  const problems = useMemo(
+    () => entries.filter((entry) => entry.level === 'exception').length,
+    [entries]
+  );
+
+  useEffect(() => {
+    const list = listRef.current;
+    if (list && followRef.current) list.scrollTop = list.scrollHeight;
+  }, [visible]);
+
+  const handleScroll = () => {
+    const list = listRef.current;
+    if (list) followRef.current = list.scrollHeight - list.scrollTop - list.clientHeight < 8;
+  };
+
+  return (
+    <details className="java-console">
+      <summary>
+        Console
+        <span className="console-count">{entries.length}</span>
+        {problems > 0 && (
+          <span className="console-count exception">{problems} exception{problems > 1 ? 's' : ''}</span>
+        )}
+      </summary>
+
+      <div className="console-toolbar">
+        {(Object.keys(LEVELS) as LogLevel[]).map((level) => (
+          <label key={level} className={`console-filter ${level}`}>
+            <input
+              type="checkbox"
+              checked={levels[level]}
+              onChange={(e) => setLevels({ ...levels, [level]: e.target.checked })}
+            />
+            {LEVELS[level]}
+          </label>
+        ))}
+        <input
+          type="search"
+          className="console-search"
+          placeholder="Search"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+        />
+        <button className="btn btn-secondary" onClick={onClear} disabled={entries.length === 0}>
+          Clear
+        </button>
+        <button
+          className="btn btn-secondary"
+          onClick={onDownloadDiagnostics}
+          disabled={!canDownload}
+          title="Console, manifest, JAR hash and settings in one ZIP for bug reports"
+        >
+          Download diagnostics
+        </button>
+      </div>
+
+      <ol className="console-lines" ref={listRef} onScroll={handleScroll}>
+        {visible.length === 0 && (
+          <li className="console-empty">
+            {entries.length === 0 ? 'Nothing logged yet.' : 'No entries match the filters.'}
+          </li>
+        )}
+        {visible.map((entry) => (
+          <li key={entry.id} className={`console-line ${entry.level}`}>
+            <span className="console-time">{formatTime(entry.time)}</span>
+            <pre className="console-text">{entry.text}</pre>
+          </li>
+        ))}
+      </ol>
+    </details>
+  );
+};
+
+export default JavaConsole;
@@ -0,0 +1,158 @@
+/**
+ * Key Mapping Editor Component
+ * Bind physical keys to J2ME keys by pressing them
+ */
+
+import React, { useEffect, useState } from 'react';
+import { J2ME_KEYS, type J2MEKeyName } from '../utils/j2meKeys';
+import { type KeyMappingScope } from '../hooks/useKeyMapping';
+import {
+  bindKey,
+  findPreset,
+  formatJ2MEKey,
+  formatKeyCode,
+  KEY_MAPPING_PRESETS,
+  unbindKey,
+  type KeyboardLayoutMap,
+  type KeyMapping,
+} from '../utils/keyMapping';
+import './KeyMappingEditor.css';
+
+interface KeyMappingEditorProps {
+  mapping: KeyMapping;
+  scope: KeyMappingScope;
+  layout: KeyboardLayoutMap | null;
+  /** Whether the mapping can be saved for the current game only */
+  canSaveForGame: boolean;
+  onSave: (mapping: KeyMapping, scope: KeyMappingScope) => void;
+  onResetGame: () => void;
+  onClose: () => void;
+}
+
+const KEY_NAMES = Object.keys(J2ME_KEYS) as J2MEKeyName[];
+
+const KeyMappingEditor: React.FC<KeyMappingEditorProps> = ({
+  mapping,
+  scope,
+  layout,
+  canSaveForGame,
+  onSave,
+  onResetGame,
+  onClose,
+}) => {
+  const [draft, setDraft] = useState<KeyMapping>(mapping);
+  const [saveScope, setSaveScope] = useState<KeyMappingScope>(canSaveForGame ? scope : 'global');
+  // J2ME key waiting for a physical key press
+  const [capturing, setCapturing] = useState<J2MEKeyName | null>(null);
+
+  // Capture before the emulator's own key handling sees the press
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      e.preventDefault();
+      e.stopImmediatePropagation();
+
+      if (!capturing) {
+        if (e.code === 'Escape') onClose();
+        return;
+      }
+      if (e.code !== 'Escape') {
+        setDraft((current) => bindKey(current, capturing, e.code));
+      }
+      setCapturing(null);
+    };
+    const swallowKeyUp = (e: KeyboardEvent) => {
+      e.stopImmediatePropagation();
+    };
+
+    window.addEventListener('keydown', handleKeyDown, true);
+    window.addEventListener('keyup', swallowKeyUp, true);
+
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown, true);
+      window.removeEventListener('keyup', swallowKeyUp, true);
+    };
+  }, [capturing, onClose]);
+
+  const preset = findPreset(draft);
+
+  const handleSave = () => {
+    onSave(draft, saveScope);
+    onClose();
+  };
+
+  return (
+    <div className="key-mapping-backdrop" onClick={onClose}>
+      <div className="key-mapping-editor" role="dialog" aria-label="Controls" onClick={(e) => e.stopPropagation()}>
+        <div className="key-mapping-header">
+          <h3>Controls</h3>
+          <select
+            value={preset?.id ?? ''}
+            onChange={(e) => {
+              const selected = KEY_MAPPING_PRESETS.find((p) => p.id === e.target.value);
+              if (selected) setDraft(selected.mapping);
+            }}
+            title="Preset"
+          >
+            {!preset && <option value="">Custom</option>}
+            {KEY_MAPPING_PRESETS.map((p) => (
+              <option key={p.id} value={p.id}>{p.name}</option>
+            ))}
+          </select>
+        </div>
+
+        <ul className="key-mapping-list">
+          {KEY_NAMES.map((key) => (
+            <li key={key} className="key-mapping-row">
+              <span className="key-mapping-name">{formatJ2MEKey(key)}</span>
+              <span className="key-mapping-bindings">
+                {(draft[key] ?? []).map((code) => (
+                  <button
+                    key={code}
+                    className="key-binding"
+                    onClick={() => setDraft((current) => unbindKey(current, code))}
+                    title="Remove binding"
+                  >
+                    {formatKeyCode(code, layout)} ×
+                  </button>
+                ))}
+                <button
+                  className={`key-binding add ${capturing === key ? 'capturing' : ''}`}
+                  onClick={() => setCapturing(capturing === key ? null : key)}
+                >
+                  {capturing === key ? 'Press a key…' : '+'}
+                </button>
+              </span>
+            </li>
+          ))}
+        </ul>
+
+        <div className="key-mapping-footer">
+          <label className="key-mapping-scope">
+            <input
+              type="checkbox"
+              checked={saveScope === 'game'}
+              disabled={!canSaveForGame}
+              onChange={(e) => setSaveScope(e.target.checked ? 'game' : 'global')}
+            />
+            Only for this game
+          </label>
+          {scope === 'game' && (
+            <button
+              className="btn btn-secondary"
+              onClick={() => {
+                onResetGame();
+                onClose();
+              }}
+            >
+              Use global
+            </button>
+          )}
+          <button className="btn btn-secondary" onClick={onClose}>Cancel</button>
+          <button className="btn btn-primary" onClick={handleSave}>Save</button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default KeyMappingEditor;
@@ -0,0 +1,151 @@
+/**
+ * Macro Panel Component
+ * Record input from launch, add screen assertions, save the macro as
+ * JSON and replay saved macros with their assertion results
+ */
+
+import React, { useRef, useState } from 'react';
+import { type AssertionKind, type MacroMode } from '../hooks/useInputMacro';
+import { parseMacro, serializeMacro, type AssertionResult, type InputMacro } from '../utils/inputMacro';
+import { downloadBlob, toFileName } from '../utils/download';
+import './MacroPanel.css';
+
+interface MacroPanelProps {
+  mode: MacroMode;
+  macro: InputMacro | null;
+  results: AssertionResult[];
+  error: string | null;
+  /** The MIDlet is running, so a recording or replay can start */
+  canStart: boolean;
+  onRecord: () => void;
+  onStop: () => void;
+  onAddAssertion: (kind: AssertionKind) => void;
+  onPlay: (macro: InputMacro) => void;
+}
+
+const MacroPanel: React.FC<MacroPanelProps> = ({
+  mode,
+  macro,
+  results,
+  error,
+  canStart,
+  onRecord,
+  onStop,
+  onAddAssertion,
+  onPlay,
+}) => {
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const failures = results.filter((result) => !result.passed).length;
+
+  const handleSave = () => {
+    if (!macro) return;
+    downloadBlob(serializeMacro(macro), `${toFileName(macro.game?.name ?? 'macro')}.macro.json`);
+  };
+
+  const handleLoad = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      setLoadError(null);
+      onPlay(parseMacro(await file.text()));
+    } catch (err) {
+      setLoadError(err instanceof Error ? err.message : 'Could not read the macro');
+    }
+  };
+
+  return (
+    <details className="macro-panel">
+      <summary>
+        Macros
+        {mode !== 'idle' && <span className={`macro-mode ${mode}`}>{mode === 'recording' ? 'Recording' : 'Playing'}</span>}
+        {results.length > 0 && (
+          <span className={`macro-count ${failures > 0 ? 'failed' : 'passed'}`}>
+            {results.length - failures}/{results.length} passed
+          </span>
+        )}
+      </summary>
+
+      <div className="macro-toolbar">
+        {mode === 'idle' ? (
+          <button
+            className="btn btn-secondary"
+            onClick={onRecord}
+            disabled={!canStart}
+            title="Restart the game and record input from launch"
+          >
+            Record
+          </button>
+        ) : (
+          <button className="btn btn-secondary" onClick={onStop}>
+            Stop
+          </button>
+        )}
+        <button
+          className="btn btn-secondary"
+          onClick={() => onAddAssertion('screen-hash')}
+          disabled={mode !== 'recording'}
+          title="Expect exactly this screen at this moment"
+        >
+          Assert screen hash
+        </button>
+        <button
+          className="btn btn-secondary"
+          onClick={() => onAddAssertion('screen-match')}
+          disabled={mode !== 'recording'}
+          title="Expect a screen close to this one at this moment"
+        >
+          Assert screenshot
+        </button>
+        <button className="btn btn-secondary" onClick={handleSave} disabled={!macro || mode === 'recording'}>
+          Save JSON
+        </button>
+        <button
+          className="btn btn-secondary"
+          onClick={() => macro && onPlay(macro)}
+          disabled={!macro || !canStart || mode !== 'idle'}
+        >
+          Replay
+        </button>
+        <button
+          className="btn btn-secondary"
+          onClick={() => fileInputRef.current?.click()}
+          disabled={!canStart || mode !== 'idle'}
+        >
+          Load and play
+        </button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".json,application/json"
+          onChange={handleLoad}
+          hidden
+        />
+      </div>
+
+      {macro && (
+        <p className="macro-summary">
+          {macro.events.length} events • {macro.assertions.length} assertions
+          {macro.events.length > 0 && ` • ${(macro.events[macro.events.length - 1].time / 1000).toFixed(1)} s`}
+        </p>
+      )}
+      {(error || loadError) && <p className="macro-error" role="alert">{error || loadError}</p>}
+
+      {results.length > 0 && (
+        <ul className="macro-results">
+          {results.map((result, i) => (
+            <li key={i} className={`macro-result ${result.passed ? 'passed' : 'failed'}`}>
+              <span className="macro-status">{result.passed ? 'PASS' : 'FAIL'}</span>
+              <span className="macro-name">{result.name}</span>
+              <span className="macro-message">{result.message}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </details>
+  );
+};
+
+export default MacroPanel;
@@ -0,0 +1,191 @@
+/**
+ * Macro Runner Component
+ * Headless test page: launches a JAR, replays a macro against it and
+ * reports the assertion results for CI. Opened as
+ * ?run=<macro URL>[&jar=<JAR URL>][&speed=<speed>]
+ */
+
+import React, { useEffect, useRef, useState } from 'react';
+import useCheerpJ from '../hooks/useCheerpJ';
+import { readStoredSettings } from '../hooks/useSettings';
+import { getDeviceProfile, toJavaProperties, translateKeyCode } from '../utils/deviceProfiles';
+import { installSuite, jarFileName } from '../utils/otaInstaller';
+import { setMasterVolume } from '../utils/audioEngine';
+import { computeScreenLayout } from '../utils/screenLayout';
+import { EMULATION_SPEEDS, type EmulationSpeed } from '../utils/runtimeClock';
+import { checkAssertion, parseMacro, playMacro, type AssertionResult, type InputMacro } from '../utils/inputMacro';
+import './MacroRunner.css';
+
+export interface MacroRunResult {
+  passed: boolean;
+  results: AssertionResult[];
+  /** Why the run could not finish, if it could not */
+  error: string | null;
+}
+
+declare global {
+  interface Window {
+    /** Set once a headless run finishes, for test drivers to poll */
+    j2meTestResult?: MacroRunResult;
+  }
+}
+
+interface MacroRunnerProps {
+  macroUrl: string;
+  jarUrl: string | null;
+  speed: string | null;
+}
+
+// The game must be running within this long of opening the page
+const STARTUP_TIMEOUT_MS = 60000;
+
+async function fetchOk(url: URL): Promise<Response> {
+  const response = await fetch(url);
+  if (!response.ok) throw new Error(`${url}: HTTP ${response.status}`);
+  return response;
+}
+
+// Publish the result everywhere a test driver may look for it
+function report(result: MacroRunResult): void {
+  window.j2meTestResult = result;
+  document.title = result.passed ? 'PASS' : 'FAIL';
+  (window.opener ?? (window.parent !== window ? window.parent : null))
+    ?.postMessage({ type: 'j2me-test-result', result }, '*');
+  console.log(`j2me-test-result ${JSON.stringify(result)}`);
+}
+
+const MacroRunner: React.FC<MacroRunnerProps> = ({ macroUrl, jarUrl, speed }) => {
+  const {
+    status,
+    error: cheerpjError,
+    containerRef,
+    loadJAR,
+    stop,
+    sendKeyEvent,
+    sendPointerEvent,
+    setScreenLayout,
+    getScreenCanvas,
+    setSpeed,
+    getMidletTime,
+  } = useCheerpJ();
+  const [macro, setMacro] = useState<{ macro: InputMacro; baseUrl: string } | null>(null);
+  const [results, setResults] = useState<AssertionResult[]>([]);
+  const [outcome, setOutcome] = useState<MacroRunResult | null>(null);
+  const [progress, setProgress] = useState('Loading macro…');
+  const resultsRef = useRef<AssertionResult[]>([]);
+  const input = useRef({ sendKeyEvent, sendPointerEvent });
+
+  useEffect(() => {
+    input.current = { sendKeyEvent, sendPointerEvent };
+  }, [sendKeyEvent, sendPointerEvent]);
+
+  const doneRef = useRef(false);
+
+  // The first outcome wins: a failure after the run finished changes nothing
+  const finish = useRef((error: string | null) => {
+    if (doneRef.current) return;
+    doneRef.current = true;
+
+    const results = resultsRef.current;
+    const result = { passed: error === null && results.every((r) => r.passed), results, error };
+    report(result);
+    setOutcome(result);
+  });
+
+  // Fetch the macro and the JAR, then launch the game muted
+  useEffect(() => {
+    let cancelled = false;
+    setMasterVolume(0, true);
+
+    (async () => {
+      const macroLocation = new URL(macroUrl, location.href);
+      const next = parseMacro(await (await fetchOk(macroLocation)).text());
+
+      const jarSource = jarUrl ?? next.game?.jar;
+      if (!jarSource) throw new Error('No JAR to run: pass &jar= or set game.jar in the macro');
+      const jarLocation = jarUrl ? new URL(jarUrl, location.href) : new URL(jarSource, macroLocation);
+
+      setProgress('Loading game…');
+      const blob = await (await fetchOk(jarLocation)).blob();
+      // The installer goes by extension, which download URLs may lack
+      const name = jarFileName(jarLocation.pathname);
+      const file = new File([blob], /\.jar$/i.test(name) ? name : 'game.jar');
+      const { archive, manifest } = await installSuite([file]);
+      if (cancelled) return;
+
+      const profile = getDeviceProfile(next.device);
+      const { width, height } = next.screen;
+      setScreenLayout(computeScreenLayout(next.screen, next.screen, 0, 1), 'nearest');
+      if (speed && speed in EMULATION_SPEEDS) setSpeed(speed as EmulationSpeed);
+      setMacro({ macro: next, baseUrl: macroLocation.href });
+      setProgress('Starting game…');
+
+      loadJAR(archive.file, manifest.className, width, height, {
+        javaProperties: toJavaProperties(profile),
+        translateKey: (keyCode) => translateKeyCode(profile, keyCode),
+        loaderUrl: readStoredSettings().runtimeUrl,
+      }).catch(() => {});
+    })().catch((err) => {
+      if (!cancelled) finish.current(err instanceof Error ? err.message : 'Could not start the run');
+    });
+
+    return () => {
+      cancelled = true;
+      stop();
+    };
+  }, [macroUrl, jarUrl, speed, loadJAR, stop, setScreenLayout, setSpeed]);
+
+  // Give up when the game does not start
+  useEffect(() => {
+    const timer = window.setTimeout(() => {
+      if (getMidletTime() === null) finish.current('The game did not start in time');
+    }, STARTUP_TIMEOUT_MS);
+    return () => window.clearTimeout(timer);
+  }, [getMidletTime]);
+
+  useEffect(() => {
+    if (status === 'error') finish.current(cheerpjError ?? 'The game failed');
+  }, [status, cheerpjError]);
+
+  // Replay once the game runs; playback waits for the MIDlet's clock itself
+  const isRunning = status === 'running';
+
+  useEffect(() => {
+    if (!macro || !isRunning) return;
+
+    const playback = playMacro({
+      macro: macro.macro,
+      getTime: getMidletTime,
+      sendKey: (keyCode, pressed) => input.current.sendKeyEvent(keyCode, pressed),
+      sendPointer: (type, x, y) => input.current.sendPointerEvent(type, x, y),
+      check: (assertion) => checkAssertion(assertion, getScreenCanvas(), macro.macro.screen, macro.baseUrl),
+      onResult: (result) => {
+        resultsRef.current = [...resultsRef.current, result];
+        setResults(resultsRef.current);
+      },
+      onDone: () => finish.current(null),
+    });
+
+    return () => playback.stop();
+  }, [macro, isRunning, getMidletTime, getScreenCanvas]);
+
+  return (
+    <main className="macro-runner">
+      <div
+        className="macro-runner-screen"
+        ref={containerRef as React.RefObject<HTMLDivElement>}
+        style={macro ? { width: macro.macro.screen.width, height: macro.macro.screen.height } : undefined}
+      />
+      <p className="macro-runner-status">
+        {outcome ? (outcome.passed ? 'PASS' : 'FAIL') : isRunning ? 'Replaying…' : progress}
+      </p>
+      <pre className="macro-runner-report">
+        {outcome ? JSON.stringify(outcome, null, 2) : results.map((result) => (
+          `${result.passed ? 'PASS' : 'FAIL'} ${result.name}: ${result.message}`
+        )).join('\n')}
+      </pre>
+    </main>
+  );
+};
+
+export default MacroRunner;
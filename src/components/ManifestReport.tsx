@@ -0,0 +1,43 @@
+/**
+ * Manifest Report Component
+ * Collapsible list of manifest and JAD validation issues
+ */
+
+import React from 'react';
+import { type ManifestIssue } from '../utils/manifestParser';
+import './ManifestReport.css';
+
+interface ManifestReportProps {
+  issues: ManifestIssue[];
+  encoding?: string;
+}
+
+const ManifestReport: React.FC<ManifestReportProps> = ({ issues, encoding }) => {
+  if (issues.length === 0) return null;
+
+  const errors = issues.filter((issue) => issue.severity === 'error').length;
+  const warnings = issues.length - errors;
+
+  return (
+    <details className="manifest-report">
+      <summary>
+        Manifest report
+        {errors > 0 && <span className="report-count error">{errors} error{errors === 1 ? '' : 's'}</span>}
+        {warnings > 0 && <span className="report-count warning">{warnings} warning{warnings === 1 ? '' : 's'}</span>}
+        {encoding && encoding !== 'utf-8' && <span className="report-encoding">{encoding}</span>}
+      </summary>
+      <ul className="report-list">
+        {issues.map((issue, index) => (
+          <li key={index} className={`report-issue ${issue.severity}`}>
+            <span className="issue-location">
+              {issue.source}{issue.line !== null && `:${issue.line}`}
+            </span>
+            <span className="issue-message">{issue.message}</span>
+          </li>
+        ))}
+      </ul>
+    </details>
+  );
+};
+
+export default ManifestReport;
@@ -0,0 +1,92 @@
+/**
+ * MIDlet Chooser Component
+ * Launcher screen listing every MIDlet in a multi-MIDlet suite
+ */
+
+import React, { useEffect, useState } from 'react';
+import ManifestReport from './ManifestReport';
+import CompatibilityReport from './CompatibilityReport';
+import { type JARManifest, type MIDletInfo } from '../utils/jarParser';
+import { type JarArchive } from '../utils/jarArchive';
+import './MidletChooser.css';
+
+interface MidletChooserProps {
+  archive: JarArchive;
+  manifest: JARManifest;
+  onSelect: (midlet: MIDletInfo) => void;
+  onBack: () => void;
+}
+
+const MidletChooser: React.FC<MidletChooserProps> = ({ archive, manifest, onSelect, onBack }) => {
+  const [icons, setIcons] = useState<(string | null)[]>([]);
+
+  // Extract every MIDlet icon, falling back to the suite icon
+  useEffect(() => {
+    let cancelled = false;
+    const suiteIcon = manifest.rawManifest['MIDlet-Icon'] || null;
+
+    Promise.all(
+      manifest.midlets.map((midlet) => {
+        const iconPath = midlet.icon || suiteIcon;
+        return iconPath ? archive.icon(iconPath) : Promise.resolve(null);
+      })
+    ).then((result) => {
+      if (!cancelled) setIcons(result);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [archive, manifest]);
+
+  return (
+    <div className="midlet-chooser">
+      <div className="chooser-header">
+        <div className="game-info">
+          <h2 className="game-title">{manifest.midletName}</h2>
+          <span className="game-meta">
+            {manifest.midletVendor} • v{manifest.midletVersion} • {manifest.midlets.length} MIDlets
+          </span>
+        </div>
+        <button className="btn btn-secondary" onClick={onBack}>
+          <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" width="16" height="16">
+            <path d="M19 12H5M12 19l-7-7 7-7" />
+          </svg>
+          Back
+        </button>
+      </div>
+
+      <ul className="midlet-list">
+        {manifest.midlets.map((midlet, index) => (
+          <li key={`${midlet.className}-${index}`}>
+            <button
+              className="midlet-item"
+              onClick={() => onSelect(midlet)}
+              disabled={!midlet.className}
+            >
+              <div className="midlet-icon">
+                {icons[index] ? (
+                  <img src={icons[index]!} alt="" />
+                ) : (
+                  <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                    <rect x="5" y="2" width="14" height="20" rx="2" ry="2" />
+                    <circle cx="12" cy="18" r="1" />
+                  </svg>
+                )}
+              </div>
+              <div className="midlet-details">
+                <span className="midlet-name">{midlet.name}</span>
+                <span className="midlet-class">{midlet.className || 'No class specified'}</span>
+              </div>
+            </button>
+          </li>
+        ))}
+      </ul>
+
+      <ManifestReport issues={manifest.manifestIssues} encoding={manifest.manifestEncoding} />
+      <CompatibilityReport archive={archive} />
+    </div>
+  );
+};
+
+export default MidletChooser;
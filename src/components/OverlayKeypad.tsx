@@ -0,0 +1,54 @@
+/**
+ * Overlay Keypad Component
+ * Minimal translucent touch controls drawn over the screen in fullscreen
+ */
+
+import React, { useCallback } from 'react';
+import { J2ME_KEYS } from '../utils/j2meKeys';
+import './OverlayKeypad.css';
+
+interface OverlayKeypadProps {
+  onKeyPress: (keyCode: number, pressed: boolean) => void;
+  onExitFullscreen: () => void;
+}
+
+const OverlayKeypad: React.FC<OverlayKeypadProps> = ({ onKeyPress, onExitFullscreen }) => {
+  const renderKey = useCallback((label: string, keyCode: number, className: string) => (
+    <button
+      className={`overlay-key ${className}`}
+      onPointerDown={(e) => {
+        e.preventDefault();
+        e.currentTarget.setPointerCapture(e.pointerId);
+        onKeyPress(keyCode, true);
+      }}
+      onPointerUp={() => onKeyPress(keyCode, false)}
+      onPointerCancel={() => onKeyPress(keyCode, false)}
+      onContextMenu={(e) => e.preventDefault()}
+    >
+      {label}
+    </button>
+  ), [onKeyPress]);
+
+  return (
+    <div className="overlay-keypad">
+      <div className="overlay-top">
+        {renderKey('Options', J2ME_KEYS.SOFT_LEFT, 'soft')}
+        <button className="overlay-key exit" onClick={onExitFullscreen} title="Exit fullscreen">
+          ✕
+        </button>
+        {renderKey('Back', J2ME_KEYS.SOFT_RIGHT, 'soft')}
+      </div>
+      <div className="overlay-bottom">
+        <div className="overlay-dpad">
+          {renderKey('▲', J2ME_KEYS.UP, 'up')}
+          {renderKey('◀', J2ME_KEYS.LEFT, 'left')}
+          {renderKey('▶', J2ME_KEYS.RIGHT, 'right')}
+          {renderKey('▼', J2ME_KEYS.DOWN, 'down')}
+        </div>
+        {renderKey('●', J2ME_KEYS.FIRE, 'fire')}
+      </div>
+    </div>
+  );
+};
+
+export default OverlayKeypad;
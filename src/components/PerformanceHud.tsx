@@ -0,0 +1,86 @@
+/**
+ * Performance HUD Component
+ * Overlay with the repaint rate, a frame-time graph, JS heap usage and
+ * how long the JVM and the game took to start
+ */
+
+import React, { useEffect, useState } from 'react';
+import { type StartupTimings } from '../hooks/useCheerpJ';
+import { type FrameStats } from '../utils/performanceMonitor';
+import './PerformanceHud.css';
+
+interface PerformanceHudProps {
+  getFrameStats: () => FrameStats | null;
+  timings: StartupTimings;
+}
+
+// Non-standard, Chromium only
+interface HeapInfo {
+  usedJSHeapSize: number;
+  jsHeapSizeLimit: number;
+}
+
+interface HudSample {
+  frames: FrameStats | null;
+  heap: HeapInfo | null;
+}
+
+const REFRESH_MS = 500;
+const GRAPH = { width: 120, height: 32, maxFrameTime: 100, frames: 120 };
+
+function readHeap(): HeapInfo | null {
+  const { memory } = performance as Performance & { memory?: HeapInfo };
+  return memory ? { usedJSHeapSize: memory.usedJSHeapSize, jsHeapSizeLimit: memory.jsHeapSizeLimit } : null;
+}
+
+function formatDuration(ms: number | null): string {
+  if (ms === null) return '…';
+  return ms < 1000 ? `${Math.round(ms)} ms` : `${(ms / 1000).toFixed(1)} s`;
+}
+
+const toMB = (bytes: number) => Math.round(bytes / (1024 * 1024));
+
+const graphY = (ms: number) => GRAPH.height - (Math.min(ms, GRAPH.maxFrameTime) / GRAPH.maxFrameTime) * GRAPH.height;
+
+const PerformanceHud: React.FC<PerformanceHudProps> = ({ getFrameStats, timings }) => {
+  const [sample, setSample] = useState<HudSample>(() => ({ frames: getFrameStats(), heap: readHeap() }));
+
+  useEffect(() => {
+    const interval = window.setInterval(() => {
+      setSample({ frames: getFrameStats(), heap: readHeap() });
+    }, REFRESH_MS);
+    return () => window.clearInterval(interval);
+  }, [getFrameStats]);
+
+  const frameTimes = sample.frames?.frameTimes ?? [];
+  const step = GRAPH.width / (GRAPH.frames - 1);
+  const offset = GRAPH.frames - frameTimes.length;
+  const points = frameTimes
+    .map((ms, i) => `${((offset + i) * step).toFixed(1)},${graphY(ms).toFixed(1)}`)
+    .join(' ');
+
+  return (
+    <div className="performance-hud" aria-hidden="true">
+      <div className="hud-row">
+        <span className="hud-fps">{sample.frames?.fps ?? 0}</span> FPS
+      </div>
+      <svg className="hud-graph" viewBox={`0 0 ${GRAPH.width} ${GRAPH.height}`} width={GRAPH.width} height={GRAPH.height}>
+        {/* 60 and 30 FPS */}
+        <line x1={0} x2={GRAPH.width} y1={graphY(1000 / 60)} y2={graphY(1000 / 60)} className="hud-guide" />
+        <line x1={0} x2={GRAPH.width} y1={graphY(1000 / 30)} y2={graphY(1000 / 30)} className="hud-guide" />
+        {points && <polyline points={points} className="hud-line" />}
+      </svg>
+      {sample.heap && (
+        <div className="hud-row">
+          Heap {toMB(sample.heap.usedJSHeapSize)} / {toMB(sample.heap.jsHeapSizeLimit)} MB
+        </div>
+      )}
+      <div className="hud-row">JVM start {formatDuration(timings.jvmStartup)}</div>
+      <div className="hud-row">
+        Game start {timings.jvmStartup === null ? '…' : formatDuration(timings.gameStart)}
+      </div>
+    </div>
+  );
+};
+
+export default PerformanceHud;
@@ -0,0 +1,73 @@
+/**
+ * Pointer Layer Component
+ * Turns mouse, pen and touch input on the screen into MIDP pointer events
+ */
+
+import React, { useCallback, useRef } from 'react';
+import { toScreenPoint, type ScreenLayout } from '../utils/screenLayout';
+import { type PointerEventType } from '../utils/inputBridge';
+import './PointerLayer.css';
+
+interface PointerLayerProps {
+  layout: ScreenLayout;
+  /** Whether events reach the MIDlet; the layer still shields the runtime otherwise */
+  enabled: boolean;
+  onPointer: (type: PointerEventType, x: number, y: number) => void;
+}
+
+const PointerLayer: React.FC<PointerLayerProps> = ({ layout, enabled, onPointer }) => {
+  // MIDP knows a single pointer: follow the one that went down first
+  const activePointerRef = useRef<number | null>(null);
+  const lastPointRef = useRef<{ x: number; y: number } | null>(null);
+
+  const locate = useCallback((e: React.PointerEvent<HTMLDivElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    return toScreenPoint(layout, e.clientX - rect.left, e.clientY - rect.top);
+  }, [layout]);
+
+  const handlePointerDown = useCallback((e: React.PointerEvent<HTMLDivElement>) => {
+    if (!enabled || activePointerRef.current !== null || e.button !== 0) return;
+
+    const point = locate(e);
+    if (!point.inside) return;
+
+    e.preventDefault();
+    e.currentTarget.setPointerCapture(e.pointerId);
+    activePointerRef.current = e.pointerId;
+    lastPointRef.current = point;
+    onPointer('pointerPressed', point.x, point.y);
+  }, [enabled, locate, onPointer]);
+
+  const handlePointerMove = useCallback((e: React.PointerEvent<HTMLDivElement>) => {
+    if (e.pointerId !== activePointerRef.current) return;
+
+    const point = locate(e);
+    const last = lastPointRef.current;
+    if (last && last.x === point.x && last.y === point.y) return;
+
+    lastPointRef.current = point;
+    onPointer('pointerDragged', point.x, point.y);
+  }, [locate, onPointer]);
+
+  const handlePointerUp = useCallback((e: React.PointerEvent<HTMLDivElement>) => {
+    if (e.pointerId !== activePointerRef.current) return;
+
+    const point = locate(e);
+    activePointerRef.current = null;
+    lastPointRef.current = null;
+    onPointer('pointerReleased', point.x, point.y);
+  }, [locate, onPointer]);
+
+  return (
+    <div
+      className={`pointer-layer ${enabled ? 'enabled' : ''}`}
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerCancel={handlePointerUp}
+      onContextMenu={(e) => e.preventDefault()}
+    />
+  );
+};
+
+export default PointerLayer;
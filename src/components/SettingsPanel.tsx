@@ -0,0 +1,135 @@
+/**
+ * Settings Panel Component
+ * Collapsible emulator preferences
+ */
+
+import React from 'react';
+import { J2ME_KEYS, type J2MEKeyName } from '../utils/j2meKeys';
+import { type ConnectedGamepad } from '../hooks/useGamepads';
+import { DEFAULT_SETTINGS, type Settings } from '../hooks/useSettings';
+import { GAMEPAD_BUTTON_LABELS } from '../utils/gamepad';
+import { formatJ2MEKey } from '../utils/keyMapping';
+import { DEFAULT_LOADER_URL } from '../utils/runtimeLoader';
+import './SettingsPanel.css';
+
+interface SettingsPanelProps {
+  settings: Settings;
+  onChange: (changes: Partial<Settings>) => void;
+  gamepads?: ConnectedGamepad[];
+}
+
+const KEY_NAMES = Object.keys(J2ME_KEYS) as J2MEKeyName[];
+
+const SettingsPanel: React.FC<SettingsPanelProps> = ({ settings, onChange, gamepads = [] }) => {
+  return (
+    <details className="settings-panel">
+      <summary>Settings</summary>
+      <div className="settings-group">
+        <h4>Key repeat</h4>
+        <label className="settings-field">
+          <span>Delay</span>
+          <input
+            type="range"
+            min={0}
+            max={1000}
+            step={50}
+            value={settings.keyRepeatDelay}
+            onChange={(e) => onChange({ keyRepeatDelay: Number(e.target.value) })}
+          />
+          <span className="settings-value">
+            {settings.keyRepeatDelay === 0 ? 'Off' : `${settings.keyRepeatDelay} ms`}
+          </span>
+        </label>
+        <label className="settings-field">
+          <span>Interval</span>
+          <input
+            type="range"
+            min={20}
+            max={500}
+            step={10}
+            value={settings.keyRepeatInterval}
+            disabled={settings.keyRepeatDelay === 0}
+            onChange={(e) => onChange({ keyRepeatInterval: Number(e.target.value) })}
+          />
+          <span className="settings-value">{settings.keyRepeatInterval} ms</span>
+        </label>
+      </div>
+
+      <div className="settings-group">
+        <h4>Gamepad</h4>
+        <p className="settings-note">
+          {gamepads.length === 0
+            ? 'No gamepad connected. Press a button on a controller to connect it.'
+            : gamepads.map((pad) => pad.id).join(', ')}
+        </p>
+        <label className="settings-field">
+          <span>Stick dead zone</span>
+          <input
+            type="range"
+            min={0.05}
+            max={0.9}
+            step={0.05}
+            value={settings.gamepadDeadZone}
+            onChange={(e) => onChange({ gamepadDeadZone: Number(e.target.value) })}
+          />
+          <span className="settings-value">{Math.round(settings.gamepadDeadZone * 100)}%</span>
+        </label>
+        <div className="settings-button-grid">
+          {GAMEPAD_BUTTON_LABELS.map((label, index) => (
+            <label key={index} className="settings-field">
+              <span>{label}</span>
+              <select
+                value={settings.gamepadButtons[index] ?? ''}
+                onChange={(e) => onChange({
+                  gamepadButtons: {
+                    ...settings.gamepadButtons,
+                    [index]: (e.target.value || undefined) as J2MEKeyName | undefined,
+                  },
+                })}
+              >
+                <option value="">None</option>
+                {KEY_NAMES.map((key) => (
+                  <option key={key} value={key}>{formatJ2MEKey(key)}</option>
+                ))}
+              </select>
+            </label>
+          ))}
+        </div>
+        <button
+          className="btn btn-secondary"
+          onClick={() => onChange({
+            gamepadButtons: DEFAULT_SETTINGS.gamepadButtons,
+            gamepadDeadZone: DEFAULT_SETTINGS.gamepadDeadZone,
+          })}
+        >
+          Reset gamepad
+        </button>
+      </div>
+
+      <div className="settings-group">
+        <h4>Runtime</h4>
+        <label className="settings-field">
+          <span>CheerpJ loader URL</span>
+          {/* Applied when the field is left, so typing does not restart the game */}
+          <input
+            key={settings.runtimeUrl}
+            type="url"
+            className="settings-text"
+            placeholder={DEFAULT_LOADER_URL}
+            defaultValue={settings.runtimeUrl}
+            onBlur={(e) => onChange({ runtimeUrl: e.target.value.trim() })}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') e.currentTarget.blur();
+            }}
+          />
+        </label>
+        <p className="settings-note">
+          Point this at the cj3loader.js of a self-hosted CheerpJ 3 runtime, or leave it empty for the default.
+          The runtime is saved for offline play the first time a game starts.
+        </p>
+      </div>
+    </details>
+  );
+};
+
+export default SettingsPanel;
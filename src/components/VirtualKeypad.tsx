@@ -4,12 +4,14 @@
  */
 
 import React, { useCallback } from 'react';
-import { J2ME_KEYS } from '../hooks/useCheerpJ';
+import { J2ME_KEYS } from '../utils/j2meKeys';
 import './VirtualKeypad.css';
 
 interface VirtualKeypadProps {
   onKeyPress: (keyCode: number, pressed: boolean) => void;
   disabled?: boolean;
+  /** Summary of the active keyboard mapping */
+  keyboardHint?: string;
 }
 
 interface KeyConfig {
@@ -47,7 +49,7 @@ const numpadKeys: KeyConfig[] = [
   { label: '#', keyCode: J2ME_KEYS.KEY_HASH },
 ];
 
-const VirtualKeypad: React.FC<VirtualKeypadProps> = ({ onKeyPress, disabled = false }) => {
+const VirtualKeypad: React.FC<VirtualKeypadProps> = ({ onKeyPress, disabled = false, keyboardHint }) => {
   const handleTouchStart = useCallback((keyCode: number) => (e: React.TouchEvent | React.MouseEvent) => {
     e.preventDefault();
     if (!disabled) {
@@ -106,9 +108,11 @@ const VirtualKeypad: React.FC<VirtualKeypadProps> = ({ onKeyPress, disabled = fa
       </div>
 
       {/* Keyboard Hints */}
-      <div className="keyboard-hints">
-        <span>⌨️ Keyboard: Arrow Keys, Enter, Q/E (Soft Keys), 0-9</span>
-      </div>
+      {keyboardHint && (
+        <div className="keyboard-hints">
+          <span>⌨️ Keyboard: {keyboardHint}</span>
+        </div>
+      )}
     </div>
   );
 };
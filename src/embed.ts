@@ -0,0 +1,159 @@
+/**
+ * <j2me-player> Custom Element
+ * Embeds the player in any page, in a frame served by this app:
+ *
+ *   <script type="module" src="https://…/embed.js"></script>
+ *   <j2me-player src="game.jar" device="nokia-s40" scale="fit" keypad="false"></j2me-player>
+ *
+ * load, pressKey, pause, resume and screenshot return promises; the element
+ * fires statuschange, error and exit events.
+ */
+
+import {
+    EMBED_CHANNEL,
+    embedUrl,
+    isEmbedMessage,
+    parseEmbedOptions,
+    type EmbedCommands,
+    type EmbedEvents,
+    type EmbedMethod,
+    type EmbedResults,
+} from "./utils/embedProtocol";
+
+// The app page this script was built with
+const PLAYER_URL = new URL(import.meta.env.BASE_URL, import.meta.url);
+
+const OPTION_ATTRIBUTES = ["device", "scale", "keypad"];
+
+export interface J2mePlayerEventMap {
+    statuschange: CustomEvent<EmbedEvents["status"]>;
+    error: CustomEvent<EmbedEvents["error"]>;
+    exit: CustomEvent<null>;
+}
+
+interface PendingCall {
+    resolve: (result: unknown) => void;
+    reject: (error: Error) => void;
+}
+
+export class J2mePlayerElement extends HTMLElement {
+    static observedAttributes = ["src", ...OPTION_ATTRIBUTES];
+
+    private frame: HTMLIFrameElement | null = null;
+    private ready: Promise<void> = Promise.resolve();
+    private markReady = () => {};
+    private pending = new Map<number, PendingCall>();
+    private nextId = 1;
+
+    connectedCallback(): void {
+        const root = this.shadowRoot ?? this.attachShadow({ mode: "open" });
+        const style = document.createElement("style");
+        style.textContent = ":host{display:block;width:480px;height:360px}iframe{width:100%;height:100%;border:0}";
+
+        this.ready = new Promise((resolve) => {
+            this.markReady = resolve;
+        });
+        const src = this.getAttribute("src");
+        this.frame = document.createElement("iframe");
+        this.frame.title = "J2ME player";
+        this.frame.allow = "autoplay; fullscreen; gamepad";
+        this.frame.src = embedUrl(
+            PLAYER_URL,
+            src && new URL(src, document.baseURI).href,
+            parseEmbedOptions((name) => this.getAttribute(name)),
+            location.origin
+        );
+
+        root.replaceChildren(style, this.frame);
+        window.addEventListener("message", this.handleMessage);
+    }
+
+    disconnectedCallback(): void {
+        window.removeEventListener("message", this.handleMessage);
+        this.frame?.remove();
+        this.frame = null;
+        for (const call of this.pending.values()) call.reject(new Error("The player was removed"));
+        this.pending.clear();
+    }
+
+    attributeChangedCallback(name: string, previous: string | null, value: string | null): void {
+        if (!this.frame || previous === value) return;
+
+        if (name === "src") {
+            if (value) this.load(value).catch(() => {});
+        } else {
+            this.call("configure", parseEmbedOptions((attribute) => this.getAttribute(attribute))).catch(() => {});
+        }
+    }
+
+    /** Load a JAR by URL, relative to this page, or from a Blob */
+    load(source: string | Blob): Promise<void> {
+        return this.call("load", typeof source === "string" ? new URL(source, document.baseURI).href : source);
+    }
+
+    /** Press or release a J2ME key code; a short tap when pressed is omitted */
+    pressKey(keyCode: number, pressed?: boolean): Promise<void> {
+        return this.call("pressKey", keyCode, pressed);
+    }
+
+    pause(): Promise<void> {
+        return this.call("pause");
+    }
+
+    resume(): Promise<void> {
+        return this.call("resume");
+    }
+
+    /** PNG of the screen at native resolution */
+    screenshot(): Promise<Blob> {
+        return this.call("screenshot");
+    }
+
+    private async call<M extends EmbedMethod>(method: M, ...args: EmbedCommands[M]): Promise<EmbedResults[M]> {
+        await this.ready;
+        const target = this.frame?.contentWindow;
+        if (!target) throw new Error("The player is not attached to a page");
+
+        const id = this.nextId++;
+        return new Promise((resolve, reject) => {
+            this.pending.set(id, { resolve: resolve as (result: unknown) => void, reject });
+            target.postMessage({ channel: EMBED_CHANNEL, kind: "command", id, method, args }, PLAYER_URL.origin);
+        });
+    }
+
+    private handleMessage = (e: MessageEvent) => {
+        if (e.source !== this.frame?.contentWindow || e.origin !== PLAYER_URL.origin || !isEmbedMessage(e.data)) return;
+        const message = e.data;
+
+        if (message.kind === "reply") {
+            const call = this.pending.get(message.id);
+            this.pending.delete(message.id);
+            if (message.error !== undefined) call?.reject(new Error(message.error));
+            else call?.resolve(message.result);
+        } else if (message.kind === "event") {
+            if (message.event === "ready") this.markReady();
+            else if (message.event === "status") this.dispatchEvent(new CustomEvent("statuschange", { detail: message.detail }));
+            else this.dispatchEvent(new CustomEvent(message.event, { detail: message.detail }));
+        }
+    };
+
+    addEventListener<K extends keyof J2mePlayerEventMap>(
+        type: K,
+        listener: (this: J2mePlayerElement, e: J2mePlayerEventMap[K]) => unknown,
+        options?: boolean | AddEventListenerOptions
+    ): void;
+    addEventListener(type: string, listener: EventListenerOrEventListenerObject, options?: boolean | AddEventListenerOptions): void;
+    addEventListener(type: string, listener: EventListenerOrEventListenerObject, options?: boolean | AddEventListenerOptions): void {
+        super.addEventListener(type, listener, options);
+    }
+}
+
+declare global {
+    interface HTMLElementTagNameMap {
+        "j2me-player": J2mePlayerElement;
+    }
+}
+
+if (!customElements.get("j2me-player")) {
+    customElements.define("j2me-player", J2mePlayerElement);
+}
@@ -4,8 +4,32 @@
  */
 
 import { useEffect, useState, useCallback, useRef } from 'react';
+import { playTone, resumeAudio, suspendAudio } from '../utils/audioEngine';
+import {
+  createInputBridge,
+  DEFAULT_KEY_REPEAT,
+  type InputBridge,
+  type KeyEventType,
+  type KeyRepeatConfig,
+  type PointerEventType,
+} from '../utils/inputBridge';
+import {
+  fromScreenPoint,
+  toCSSTransform,
+  type ScreenFilter,
+  type ScreenLayout,
+} from '../utils/screenLayout';
+import { describeLoaderFailure, resolveLoaderUrl } from '../utils/runtimeLoader';
+import { registerServiceWorker } from '../utils/serviceWorker';
+import { captureConsole, type LogHandler } from '../utils/javaConsole';
+import { installRuntimeClock, type EmulationSpeed, type RuntimeClock } from '../utils/runtimeClock';
+import {
+  openPerformanceSession,
+  type FrameStats,
+  type PerformanceSession,
+} from '../utils/performanceMonitor';
 
-// CheerpJ global types
+// CheerpJ global types (set on the runtime frame's window)
 declare global {
   interface Window {
     cheerpjInit: (options?: CheerpJOptions) => Promise<void>;
@@ -24,212 +48,484 @@ interface CheerpJOptions {
   beepCallback?: () => void;
 }
 
+export interface LoadJAROptions {
+  /** System properties as "key=value" strings */
+  javaProperties?: string[];
+  /** Translate a standard key code into the device's vendor code */
+  translateKey?: (keyCode: number) => number;
+  /** URL of cj3loader.js; the default runtime when omitted */
+  loaderUrl?: string;
+  /** Receives console output, uncaught exceptions and status changes */
+  onLog?: LogHandler;
+  /** Called when the MIDlet ends itself */
+  onExit?: () => void;
+}
+
+/** Receives input that reached the MIDlet, e.g. to record it */
+export type InputListener = (
+  event: { type: 'key'; keyCode: number; pressed: boolean }
+    | { type: 'pointer'; event: PointerEventType; x: number; y: number }
+) => void;
+
 export type EmulatorStatus = 'idle' | 'loading' | 'initializing' | 'running' | 'paused' | 'error';
 
+/** How long the last launch took, in ms, or null while still under way */
+export interface StartupTimings {
+  /** From launch until the JVM was ready */
+  jvmStartup: number | null;
+  /** From the JVM being ready until the game first painted */
+  gameStart: number | null;
+}
+
 interface UseCheerpJReturn {
   status: EmulatorStatus;
   error: string | null;
   isReady: boolean;
   displayElement: HTMLElement | null;
-  initialize: () => Promise<boolean>;
-  loadJAR: (jarBlob: Blob, className: string, screenWidth: number, screenHeight: number) => Promise<void>;
-  stop: () => void;
+  initialize: (javaProperties?: string[], loaderUrl?: string) => Promise<boolean>;
+  loadJAR: (
+    jarBlob: Blob,
+    className: string,
+    screenWidth: number,
+    screenHeight: number,
+    options?: LoadJAROptions
+  ) => Promise<void>;
+  stop: () => Promise<void>;
+  restart: () => Promise<void>;
+  pause: () => Promise<void>;
+  resume: () => Promise<void>;
   sendKeyEvent: (keyCode: number, pressed: boolean) => void;
+  sendPointerEvent: (type: PointerEventType, x: number, y: number) => void;
+  setKeyRepeat: (repeat: KeyRepeatConfig) => void;
+  /** Canvas the MIDlet draws into, at device resolution */
+  getScreenCanvas: () => HTMLCanvasElement | null;
+  /** Place and filter the display inside the runtime frame */
+  setScreenLayout: (layout: ScreenLayout, filter: ScreenFilter) => void;
+  /** Speed of the MIDlet's clock, for this and later sessions */
+  setSpeed: (speed: EmulationSpeed) => void;
+  /** Repaint rate and frame times of the running MIDlet */
+  getFrameStats: () => FrameStats | null;
+  /** MIDlet time since the game first painted, in ms, or null before */
+  getMidletTime: () => number | null;
+  /** Observe key and pointer events sent to the MIDlet */
+  setInputListener: (listener: InputListener | null) => void;
+  timings: StartupTimings;
   containerRef: React.RefObject<HTMLElement | null>;
 }
 
-// J2ME Key Codes
-export const J2ME_KEYS = {
-  UP: -1,
-  DOWN: -2,
-  LEFT: -3,
-  RIGHT: -4,
-  FIRE: -5,
-  SOFT_LEFT: -6,
-  SOFT_RIGHT: -7,
-  KEY_0: 48,
-  KEY_1: 49,
-  KEY_2: 50,
-  KEY_3: 51,
-  KEY_4: 52,
-  KEY_5: 53,
-  KEY_6: 54,
-  KEY_7: 55,
-  KEY_8: 56,
-  KEY_9: 57,
-  KEY_STAR: 42,
-  KEY_HASH: 35,
-} as const;
-
-// Map keyboard keys to J2ME keys
-export const KEYBOARD_MAPPING: Record<string, number> = {
-  'ArrowUp': J2ME_KEYS.UP,
-  'ArrowDown': J2ME_KEYS.DOWN,
-  'ArrowLeft': J2ME_KEYS.LEFT,
-  'ArrowRight': J2ME_KEYS.RIGHT,
-  'Enter': J2ME_KEYS.FIRE,
-  ' ': J2ME_KEYS.FIRE,
-  'KeyQ': J2ME_KEYS.SOFT_LEFT,
-  'KeyE': J2ME_KEYS.SOFT_RIGHT,
-  'Digit0': J2ME_KEYS.KEY_0,
-  'Digit1': J2ME_KEYS.KEY_1,
-  'Digit2': J2ME_KEYS.KEY_2,
-  'Digit3': J2ME_KEYS.KEY_3,
-  'Digit4': J2ME_KEYS.KEY_4,
-  'Digit5': J2ME_KEYS.KEY_5,
-  'Digit6': J2ME_KEYS.KEY_6,
-  'Digit7': J2ME_KEYS.KEY_7,
-  'Digit8': J2ME_KEYS.KEY_8,
-  'Digit9': J2ME_KEYS.KEY_9,
-  'Numpad0': J2ME_KEYS.KEY_0,
-  'Numpad1': J2ME_KEYS.KEY_1,
-  'Numpad2': J2ME_KEYS.KEY_2,
-  'Numpad3': J2ME_KEYS.KEY_3,
-  'Numpad4': J2ME_KEYS.KEY_4,
-  'Numpad5': J2ME_KEYS.KEY_5,
-  'Numpad6': J2ME_KEYS.KEY_6,
-  'Numpad7': J2ME_KEYS.KEY_7,
-  'Numpad8': J2ME_KEYS.KEY_8,
-  'Numpad9': J2ME_KEYS.KEY_9,
+// Tone played for Toolkit.beep and AlertType sounds
+const BEEP = { note: 84, duration: 120, volume: 80 };
+
+// Mouse events the runtime turns into each MIDP pointer event
+const MOUSE_EVENTS: Record<PointerEventType, string> = {
+  pointerPressed: 'mousedown',
+  pointerDragged: 'mousemove',
+  pointerReleased: 'mouseup',
 };
 
-const CHEERPJ_CDN = 'https://cjrtnc.leaningtech.com/3.0/cj3loader.js';
+/**
+ * A disposable same-origin frame hosting one JVM session. Removing the
+ * frame ends the JVM, its threads and its display.
+ */
+interface RuntimeFrame {
+  iframe: HTMLIFrameElement;
+  window: Window;
+  clock: RuntimeClock;
+}
+
+// Create the frame and load the CheerpJ runtime into it
+function createRuntimeFrame(parent: HTMLElement, loaderUrl: string): Promise<RuntimeFrame> {
+  return new Promise((resolve, reject) => {
+    const iframe = document.createElement('iframe');
+    iframe.className = 'runtime-frame';
+    iframe.title = 'J2ME runtime';
+    iframe.srcdoc = '<!DOCTYPE html><html><head><style>html,body{margin:0;overflow:hidden;background:#000}</style></head><body></body></html>';
+
+    iframe.onload = () => {
+      const frameWindow = iframe.contentWindow;
+      if (!frameWindow) {
+        iframe.remove();
+        reject(new Error('Failed to create runtime frame'));
+        return;
+      }
+
+      // Real key presses inside the frame go through the page's key mapping
+      // first; keys it does not map reach the runtime as typed
+      const forwardKey = (e: KeyboardEvent) => {
+        if (!e.isTrusted) return;
+        const forwarded = new KeyboardEvent(e.type, {
+          key: e.key,
+          code: e.code,
+          repeat: e.repeat,
+          cancelable: true,
+        });
+        window.dispatchEvent(forwarded);
+        if (forwarded.defaultPrevented) {
+          e.preventDefault();
+          e.stopImmediatePropagation();
+        }
+      };
+      frameWindow.addEventListener('keydown', forwardKey, true);
+      frameWindow.addEventListener('keyup', forwardKey, true);
+      captureConsole(frameWindow, (level, text) => activeLogHandler?.(level, text));
+      const clock = installRuntimeClock(frameWindow);
+
+      const script = frameWindow.document.createElement('script');
+      script.src = loaderUrl;
+      script.async = true;
+      script.onload = () => {
+        if (typeof frameWindow.cheerpjInit === 'function') {
+          resolve({ iframe, window: frameWindow, clock });
+          return;
+        }
+        iframe.remove();
+        reject(new Error(`The script at ${loaderUrl} is not a CheerpJ 3 loader. Check the runtime URL under Settings › Runtime.`));
+      };
+      script.onerror = () => {
+        iframe.remove();
+        describeLoaderFailure(loaderUrl).then((message) => reject(new Error(message)));
+      };
+      frameWindow.document.head.appendChild(script);
+    };
+
+    parent.appendChild(iframe);
+  });
+}
+
+interface ScreenPlacement {
+  layout: ScreenLayout;
+  filter: ScreenFilter;
+}
+
+function applyScreenLayout(display: HTMLElement, { layout, filter }: ScreenPlacement): void {
+  display.style.imageRendering = filter === 'nearest' ? 'pixelated' : 'auto';
+  display.style.position = 'absolute';
+  display.style.left = '0';
+  display.style.top = '0';
+  display.style.transformOrigin = '0 0';
+  display.style.transform = toCSSTransform(layout);
+}
+
+// Log handler and performance session of the current launch
+let activeLogHandler: LogHandler | null = null;
+let activePerformance: PerformanceSession | null = null;
+
+/**
+ * End a session by dropping its frame
+ */
+function destroyRuntimeFrame(frame: RuntimeFrame | null, jarUrl: string | null): void {
+  activePerformance?.close();
+  activePerformance = null;
+  frame?.iframe.remove();
+  if (jarUrl) URL.revokeObjectURL(jarUrl);
+}
+
+interface LaunchArgs {
+  jarBlob: Blob;
+  className: string;
+  screenWidth: number;
+  screenHeight: number;
+  options: LoadJAROptions;
+}
 
 export function useCheerpJ(): UseCheerpJReturn {
-  const [status, setStatus] = useState<EmulatorStatus>('idle');
+  const [status, setStatusState] = useState<EmulatorStatus>('idle');
   const [error, setError] = useState<string | null>(null);
   const [isReady, setIsReady] = useState(false);
   const [displayElement, setDisplayElement] = useState<HTMLElement | null>(null);
+  const [timings, setTimings] = useState<StartupTimings>({ jvmStartup: null, gameStart: null });
   
   const containerRef = useRef<HTMLElement | null>(null);
   const jarUrlRef = useRef<string | null>(null);
+  const frameRef = useRef<RuntimeFrame | null>(null);
+  // Incremented on every load and stop, so stale async work can bail out
+  const sessionRef = useRef(0);
+  const lastLaunchRef = useRef<LaunchArgs | null>(null);
+  const inputRef = useRef<InputBridge | null>(null);
+  const keyRepeatRef = useRef<KeyRepeatConfig>(DEFAULT_KEY_REPEAT);
+  const displayRef = useRef<HTMLElement | null>(null);
+  const screenPlacementRef = useRef<ScreenPlacement | null>(null);
+  const speedRef = useRef<EmulationSpeed>('1');
+  const inputListenerRef = useRef<InputListener | null>(null);
 
-  // Load CheerpJ script
-  const loadScript = useCallback((): Promise<void> => {
-    return new Promise((resolve, reject) => {
-      if (typeof window.cheerpjInit === 'function') {
-        resolve();
-        return;
-      }
+  // Every transition also goes to the console of the session
+  const setStatus = useCallback((next: EmulatorStatus, detail?: string) => {
+    setStatusState(next);
+    activeLogHandler?.('status', detail ? `${next}: ${detail}` : next);
+  }, []);
 
-      const script = document.createElement('script');
-      script.src = CHEERPJ_CDN;
-      script.async = true;
-      
-      script.onload = () => resolve();
-      script.onerror = () => reject(new Error('Failed to load CheerpJ'));
-      
-      document.head.appendChild(script);
-    });
+  // Tear down the current session, if any
+  const teardown = useCallback(async () => {
+    inputRef.current?.dispose();
+    inputRef.current = null;
+
+    const frame = frameRef.current;
+    const jarUrl = jarUrlRef.current;
+    frameRef.current = null;
+    jarUrlRef.current = null;
+
+    setIsReady(false);
+    setDisplayElement(null);
+    displayRef.current = null;
+    destroyRuntimeFrame(frame, jarUrl);
   }, []);
 
-  // Initialize CheerpJ
-  const initialize = useCallback(async (): Promise<boolean> => {
-    if (isReady) return true;
+  // Start a fresh runtime in a new frame
+  const initialize = useCallback(async (
+    javaProperties: string[] = [],
+    loaderUrl: string = resolveLoaderUrl()
+  ): Promise<boolean> => {
+    const session = sessionRef.current;
+    await teardown();
+
+    if (!containerRef.current) return false;
     
     try {
       setStatus('loading');
       setError(null);
       
-      await loadScript();
+      const frame = await createRuntimeFrame(containerRef.current, loaderUrl);
+      // Keep this runtime cached for offline play
+      registerServiceWorker(loaderUrl);
+      if (session !== sessionRef.current) {
+        frame.iframe.remove();
+        return false;
+      }
+      frameRef.current = frame;
+      frame.clock.setSpeed(speedRef.current);
       
       setStatus('initializing');
       
-      await window.cheerpjInit({
+      await frame.window.cheerpjInit({
         version: 8,
         status: 'none',
         clipboardMode: 'java',
+        javaProperties,
+        beepCallback: () => playTone(BEEP.note, BEEP.duration, BEEP.volume),
       });
+      if (session !== sessionRef.current) return false;
       
       setIsReady(true);
       setStatus('idle');
       return true;
     } catch (err) {
+      if (session !== sessionRef.current) return false;
       const message = err instanceof Error ? err.message : 'Failed to initialize CheerpJ';
       setError(message);
-      setStatus('error');
+      setStatus('error', message);
       return false;
     }
-  }, [isReady, loadScript]);
+  }, [teardown, setStatus]);
 
   // Load and run a JAR file
   const loadJAR = useCallback(async (
     jarBlob: Blob,
     className: string,
     screenWidth: number,
-    screenHeight: number
+    screenHeight: number,
+    options: LoadJAROptions = {}
   ): Promise<void> => {
-    if (!isReady) {
-      const initialized = await initialize();
-      if (!initialized) throw new Error('CheerpJ not initialized');
-    }
+    const {
+      javaProperties = [],
+      translateKey = (keyCode: number) => keyCode,
+      loaderUrl,
+      onLog = null,
+      onExit,
+    } = options;
+    const session = ++sessionRef.current;
+    // The previous MIDlet's clock no longer counts as this launch's time
+    activePerformance?.close();
+    activePerformance = null;
+    activeLogHandler = onLog;
+    lastLaunchRef.current = { jarBlob, className, screenWidth, screenHeight, options };
+    const launchedAt = performance.now();
+    setTimings({ jvmStartup: null, gameStart: null });
+
+    // Every launch gets its own JVM, so properties always apply
+    const initialized = await initialize(javaProperties, resolveLoaderUrl(loaderUrl));
+    if (session !== sessionRef.current) return;
+    if (!initialized) throw new Error('CheerpJ not initialized');
+
+    const readyAt = performance.now();
+    setTimings({ jvmStartup: readyAt - launchedAt, gameStart: null });
+
+    const frame = frameRef.current!;
 
     try {
       setStatus('loading');
       
-      // Revoke previous URL
-      if (jarUrlRef.current) {
-        URL.revokeObjectURL(jarUrlRef.current);
-      }
-      
       // Create a blob URL for the JAR
       const jarUrl = URL.createObjectURL(jarBlob);
       jarUrlRef.current = jarUrl;
       
       // Create display container
-      if (containerRef.current) {
-        const display = window.cheerpjCreateDisplay(
-          screenWidth,
-          screenHeight,
-          containerRef.current
-        );
-        setDisplayElement(display);
-      }
+      const display = frame.window.cheerpjCreateDisplay(
+        screenWidth,
+        screenHeight,
+        frame.window.document.body
+      );
+      if (screenPlacementRef.current) applyScreenLayout(display, screenPlacementRef.current);
+      displayRef.current = display;
+      setDisplayElement(display);
+
+      // Without a Java input bridge, keys go to the runtime as DOM key
+      // events on its display. Negative MIDP and vendor codes have no DOM
+      // form, and nothing feeds GameCanvas.getKeyStates().
+      const sendKey = (type: KeyEventType, keyCode: number) => {
+        display.dispatchEvent(new KeyboardEvent(type === 'keyReleased' ? 'keyup' : 'keydown', {
+          keyCode,
+          which: keyCode,
+          repeat: type === 'keyRepeated',
+          bubbles: true,
+        }));
+      };
+      activePerformance = openPerformanceSession(
+        frame.window,
+        () => display.querySelector('canvas'),
+        frame.clock.now,
+        () => {
+          if (session !== sessionRef.current) return;
+          setTimings((current) => ({ ...current, gameStart: performance.now() - readyAt }));
+        }
+      );
+      inputRef.current = createInputBridge({
+        send: sendKey,
+        translate: translateKey,
+        repeat: keyRepeatRef.current,
+      });
       
       setStatus('running');
       
       // Run the MIDlet
-      await window.cheerpjRunMain(className, `/app/${jarUrl}:lib/`);
+      await frame.window.cheerpjRunMain(className, `/app/${jarUrl}:lib/`);
+      if (session === sessionRef.current) onExit?.();
       
     } catch (err) {
+      if (session !== sessionRef.current) return;
       const message = err instanceof Error ? err.message : 'Failed to load JAR';
       setError(message);
-      setStatus('error');
+      if (err instanceof Error && err.stack) activeLogHandler?.('exception', err.stack);
+      setStatus('error', message);
       throw err;
     }
-  }, [isReady, initialize]);
+  }, [initialize, setStatus]);
 
-  // Stop emulation
-  const stop = useCallback(() => {
-    if (jarUrlRef.current) {
-      URL.revokeObjectURL(jarUrlRef.current);
-      jarUrlRef.current = null;
-    }
+  // Stop emulation: destroy the MIDlet and drop its runtime
+  const stop = useCallback(async () => {
+    sessionRef.current++;
     setStatus('idle');
-    setDisplayElement(null);
-  }, []);
+    await teardown();
+  }, [teardown, setStatus]);
+
+  // Relaunch the last suite in a fresh runtime
+  const restart = useCallback(async () => {
+    const launch = lastLaunchRef.current;
+    if (!launch) return;
+
+    await loadJAR(
+      launch.jarBlob,
+      launch.className,
+      launch.screenWidth,
+      launch.screenHeight,
+      launch.options
+    );
+  }, [loadJAR]);
+
+  // Pause the running MIDlet by freezing its frame's timers and clock
+  const pause = useCallback(async () => {
+    if (status !== 'running') return;
+
+    setStatus('paused');
+    inputRef.current?.releaseAll();
+    frameRef.current?.clock.hold();
+    await suspendAudio();
+  }, [status, setStatus]);
+
+  // Resume a paused MIDlet
+  const resume = useCallback(async () => {
+    if (status !== 'paused') return;
 
-  // Send key event to the emulator
+    await resumeAudio();
+    frameRef.current?.clock.release();
+    setStatus('running');
+  }, [status, setStatus]);
+
+  // Send a standard key code to the running MIDlet
   const sendKeyEvent = useCallback((keyCode: number, pressed: boolean) => {
-    if (status !== 'running' || !displayElement) return;
-    
-    // Dispatch keyboard events to the display element
-    const eventType = pressed ? 'keydown' : 'keyup';
-    const event = new KeyboardEvent(eventType, {
-      keyCode,
-      which: keyCode,
+    const input = inputRef.current;
+    if (!input) return;
+
+    if (!pressed) {
+      input.release(keyCode);
+    } else if (status === 'running') {
+      input.press(keyCode);
+    } else {
+      return;
+    }
+    inputListenerRef.current?.({ type: 'key', keyCode, pressed });
+  }, [status]);
+
+  // Send a pointer event, in device pixels, to the running MIDlet
+  const sendPointerEvent = useCallback((type: PointerEventType, x: number, y: number) => {
+    const display = displayRef.current;
+    const frameWindow = frameRef.current?.window;
+    if (!display || !frameWindow || (status !== 'running' && type !== 'pointerReleased')) return;
+
+    // The runtime sees a mouse on its display, at the frame position the
+    // device pixel is drawn at
+    const placement = screenPlacementRef.current;
+    const point = placement ? fromScreenPoint(placement.layout, x, y) : { x: x + 0.5, y: y + 0.5 };
+    const target = display.querySelector('canvas') ?? display;
+    target.dispatchEvent(new MouseEvent(MOUSE_EVENTS[type], {
+      clientX: point.x,
+      clientY: point.y,
+      button: 0,
+      buttons: type === 'pointerReleased' ? 0 : 1,
       bubbles: true,
-    });
-    
-    displayElement.dispatchEvent(event);
-  }, [status, displayElement]);
+      cancelable: true,
+      view: frameWindow,
+    }));
+    inputListenerRef.current?.({ type: 'pointer', event: type, x, y });
+  }, [status]);
+
+  // Change auto-repeat timing, for this and later sessions
+  const setKeyRepeat = useCallback((repeat: KeyRepeatConfig) => {
+    keyRepeatRef.current = repeat;
+    inputRef.current?.setRepeat(repeat);
+  }, []);
+
+  const getScreenCanvas = useCallback(
+    () => displayRef.current?.querySelector('canvas') ?? null,
+    []
+  );
+
+  const setScreenLayout = useCallback((layout: ScreenLayout, filter: ScreenFilter) => {
+    screenPlacementRef.current = { layout, filter };
+    if (displayRef.current) applyScreenLayout(displayRef.current, { layout, filter });
+  }, []);
+
+  const setSpeed = useCallback((speed: EmulationSpeed) => {
+    speedRef.current = speed;
+    frameRef.current?.clock.setSpeed(speed);
+  }, []);
+
+  const getFrameStats = useCallback(() => activePerformance?.stats() ?? null, []);
+
+  const getMidletTime = useCallback(() => activePerformance?.elapsed() ?? null, []);
+
+  const setInputListener = useCallback((listener: InputListener | null) => {
+    inputListenerRef.current = listener;
+  }, []);
 
   // Cleanup on unmount
   useEffect(() => {
+    const sessions = sessionRef;
     return () => {
-      if (jarUrlRef.current) {
-        URL.revokeObjectURL(jarUrlRef.current);
-      }
+      sessions.current++;
+      inputRef.current?.dispose();
+      destroyRuntimeFrame(frameRef.current, jarUrlRef.current);
+      frameRef.current = null;
+      jarUrlRef.current = null;
     };
   }, []);
 
@@ -241,7 +537,19 @@ export function useCheerpJ(): UseCheerpJReturn {
     initialize,
     loadJAR,
     stop,
+    restart,
+    pause,
+    resume,
     sendKeyEvent,
+    sendPointerEvent,
+    setKeyRepeat,
+    getScreenCanvas,
+    setScreenLayout,
+    setSpeed,
+    getFrameStats,
+    getMidletTime,
+    setInputListener,
+    timings,
     containerRef,
   };
 }
@@ -0,0 +1,36 @@
+/**
+ * Device Profile Hook
+ * Selected handset profile, persisted across sessions
+ */
+
+import { useCallback, useState } from 'react';
+import { getDeviceProfile, type DeviceProfile } from '../utils/deviceProfiles';
+
+const STORAGE_KEY = 'j2me-browser:device-profile';
+
+function readStoredProfileId(): string | null {
+  try {
+    return localStorage.getItem(STORAGE_KEY);
+  } catch {
+    return null;
+  }
+}
+
+export function useDeviceProfile(): [DeviceProfile, (id: string) => void] {
+  const [profile, setProfile] = useState<DeviceProfile>(() => getDeviceProfile(readStoredProfileId()));
+
+  const selectProfile = useCallback((id: string) => {
+    const next = getDeviceProfile(id);
+    setProfile(next);
+
+    try {
+      localStorage.setItem(STORAGE_KEY, next.id);
+    } catch {
+      // Storage may be unavailable (private mode); keep the in-memory choice
+    }
+  }, []);
+
+  return [profile, selectProfile];
+}
+
+export default useDeviceProfile;
@@ -0,0 +1,49 @@
+/**
+ * Display Options Hook
+ * Scaling, filtering, rotation and fullscreen, persisted per game
+ */
+
+import { useCallback, useState } from 'react';
+import { DEFAULT_DISPLAY_OPTIONS, type DisplayOptions } from '../utils/screenLayout';
+
+const STORAGE_KEY = 'j2me-browser:display-options';
+
+function readStoredOptions(): Record<string, DisplayOptions> {
+  try {
+    return JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '{}');
+  } catch {
+    return {};
+  }
+}
+
+export function useDisplayOptions(
+  gameId?: string
+): [DisplayOptions, (changes: Partial<DisplayOptions>) => void] {
+  const [stored, setStored] = useState<Record<string, DisplayOptions>>(readStoredOptions);
+
+  const options = { ...DEFAULT_DISPLAY_OPTIONS, ...stored[gameId ?? ''] };
+
+  const updateOptions = useCallback((changes: Partial<DisplayOptions>) => {
+    setStored((current) => {
+      const key = gameId ?? '';
+      const next = {
+        ...current,
+        [key]: { ...DEFAULT_DISPLAY_OPTIONS, ...current[key], ...changes },
+      };
+
+      // Games without an identity keep their options for this session only
+      if (gameId) {
+        try {
+          localStorage.setItem(STORAGE_KEY, JSON.stringify(next));
+        } catch {
+          // Storage may be unavailable (private mode); keep the in-memory options
+        }
+      }
+      return next;
+    });
+  }, [gameId]);
+
+  return [options, updateOptions];
+}
+
+export default useDisplayOptions;
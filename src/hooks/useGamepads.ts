@@ -0,0 +1,90 @@
+/**
+ * Gamepads Hook
+ * Polls connected controllers and reports J2ME key presses
+ */
+
+import { useEffect, useRef, useState } from 'react';
+import { readGamepadKeys, type GamepadButtonMapping } from '../utils/gamepad';
+
+export interface ConnectedGamepad {
+  index: number;
+  id: string;
+}
+
+interface UseGamepadsOptions {
+  buttons: GamepadButtonMapping;
+  deadZone: number;
+  /** Called with a standard J2ME key code whenever a key goes down or up */
+  onKey: (keyCode: number, pressed: boolean) => void;
+}
+
+function listGamepads(): Gamepad[] {
+  if (typeof navigator.getGamepads !== 'function') return [];
+  return navigator.getGamepads().filter((pad): pad is Gamepad => pad !== null && pad.connected);
+}
+
+export function useGamepads({ buttons, deadZone, onKey }: UseGamepadsOptions): ConnectedGamepad[] {
+  const [gamepads, setGamepads] = useState<ConnectedGamepad[]>(() =>
+    listGamepads().map(({ index, id }) => ({ index, id }))
+  );
+
+  // Latest options, read by the polling loop without restarting it
+  const optionsRef = useRef({ buttons, deadZone, onKey });
+  useEffect(() => {
+    optionsRef.current = { buttons, deadZone, onKey };
+  }, [buttons, deadZone, onKey]);
+
+  // Track hot-plugged pads
+  useEffect(() => {
+    const refresh = () => {
+      setGamepads(listGamepads().map(({ index, id }) => ({ index, id })));
+    };
+
+    window.addEventListener('gamepadconnected', refresh);
+    window.addEventListener('gamepaddisconnected', refresh);
+
+    return () => {
+      window.removeEventListener('gamepadconnected', refresh);
+      window.removeEventListener('gamepaddisconnected', refresh);
+    };
+  }, []);
+
+  // Poll while at least one pad is connected. Keys held on several pads
+  // at once are pressed once and released when the last pad lets go.
+  const hasGamepads = gamepads.length > 0;
+
+  useEffect(() => {
+    if (!hasGamepads) return;
+
+    let held = new Set<number>();
+    let frame = 0;
+
+    const poll = () => {
+      const { buttons, deadZone, onKey } = optionsRef.current;
+      const next = new Set<number>();
+      for (const pad of listGamepads()) {
+        readGamepadKeys(pad, buttons, deadZone).forEach((keyCode) => next.add(keyCode));
+      }
+
+      held.forEach((keyCode) => {
+        if (!next.has(keyCode)) onKey(keyCode, false);
+      });
+      next.forEach((keyCode) => {
+        if (!held.has(keyCode)) onKey(keyCode, true);
+      });
+      held = next;
+
+      frame = requestAnimationFrame(poll);
+    };
+    frame = requestAnimationFrame(poll);
+
+    return () => {
+      cancelAnimationFrame(frame);
+      held.forEach((keyCode) => optionsRef.current.onKey(keyCode, false));
+    };
+  }, [hasGamepads]);
+
+  return gamepads;
+}
+
+export default useGamepads;
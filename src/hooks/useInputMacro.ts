@@ -0,0 +1,176 @@
+/**
+ * Input Macro Hook
+ * Records input from launch into a macro, and replays macros against a
+ * fresh launch while checking their screen assertions
+ */
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { type InputListener } from './useCheerpJ';
+import {
+  MACRO_FORMAT,
+  captureReference,
+  checkAssertion,
+  hashScreen,
+  playMacro,
+  type AssertionResult,
+  type InputMacro,
+  type MacroAssertion,
+  type MacroEvent,
+  type MacroPlayback,
+} from '../utils/inputMacro';
+import { type PointerEventType } from '../utils/inputBridge';
+import { type Size } from '../utils/screenLayout';
+
+export type MacroMode = 'idle' | 'recording' | 'playing';
+
+export type AssertionKind = MacroAssertion['type'];
+
+// Share of pixels a recorded screen-match may differ by
+const DEFAULT_TOLERANCE = 0.01;
+
+// MIDlet ms a recorded assertion may be late, as repaints drift between runs
+const DEFAULT_TIME_WINDOW_MS = 500;
+
+interface UseInputMacroOptions {
+  restart: () => Promise<void>;
+  getMidletTime: () => number | null;
+  setInputListener: (listener: InputListener | null) => void;
+  sendKeyEvent: (keyCode: number, pressed: boolean) => void;
+  sendPointerEvent: (type: PointerEventType, x: number, y: number) => void;
+  getScreenCanvas: () => HTMLCanvasElement | null;
+  screen: Size;
+  game?: InputMacro['game'];
+  device?: string;
+  /** Receives each assertion result as it is checked */
+  onResult?: (result: AssertionResult) => void;
+}
+
+interface UseInputMacroReturn {
+  mode: MacroMode;
+  /** The last recorded or loaded macro */
+  macro: InputMacro | null;
+  results: AssertionResult[];
+  error: string | null;
+  startRecording: () => void;
+  addAssertion: (kind: AssertionKind) => Promise<void>;
+  play: (macro: InputMacro) => void;
+  stop: () => void;
+}
+
+export function useInputMacro(options: UseInputMacroOptions): UseInputMacroReturn {
+  const [mode, setMode] = useState<MacroMode>('idle');
+  const [macro, setMacro] = useState<InputMacro | null>(null);
+  const [results, setResults] = useState<AssertionResult[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const recordingRef = useRef<InputMacro | null>(null);
+  const playbackRef = useRef<MacroPlayback | null>(null);
+  // Playback outlives renders; it always reaches the latest callbacks
+  const optionsRef = useRef(options);
+
+  useEffect(() => {
+    optionsRef.current = options;
+  });
+
+  const stop = useCallback(() => {
+    const recording = recordingRef.current;
+    recordingRef.current = null;
+    optionsRef.current.setInputListener(null);
+    if (recording) setMacro(recording);
+
+    playbackRef.current?.stop();
+    playbackRef.current = null;
+    setMode('idle');
+  }, []);
+
+  const startRecording = useCallback(() => {
+    stop();
+    const { restart, getMidletTime, setInputListener, screen, game, device } = optionsRef.current;
+    const recording: InputMacro = {
+      format: MACRO_FORMAT,
+      version: 1,
+      game,
+      device,
+      screen,
+      events: [],
+      assertions: [],
+    };
+
+    // Input before the relaunched MIDlet first paints belongs to no time
+    restart().catch((err) => setError(err instanceof Error ? err.message : 'Restart failed'));
+    setInputListener((input) => {
+      const time = getMidletTime();
+      if (time === null) return;
+      const event: MacroEvent = input.type === 'key'
+        ? { time, type: 'key', keyCode: input.keyCode, pressed: input.pressed }
+        : { time, type: 'pointer', event: input.event, x: input.x, y: input.y };
+      recording.events.push(event);
+    });
+
+    recordingRef.current = recording;
+    setError(null);
+    setResults([]);
+    setMode('recording');
+  }, [stop]);
+
+  // Assert the screen as it is now, at the current MIDlet time
+  const addAssertion = useCallback(async (kind: AssertionKind) => {
+    const recording = recordingRef.current;
+    const { getMidletTime, getScreenCanvas, screen } = optionsRef.current;
+    const time = getMidletTime();
+    const canvas = getScreenCanvas();
+    if (!recording || time === null || !canvas) return;
+
+    try {
+      const name = `Screen ${recording.assertions.length + 1}`;
+      recording.assertions.push(kind === 'screen-hash'
+        ? { time, type: kind, name, hash: await hashScreen(canvas, screen), timeWindow: DEFAULT_TIME_WINDOW_MS }
+        : {
+          time,
+          type: kind,
+          name,
+          reference: await captureReference(canvas, screen),
+          tolerance: DEFAULT_TOLERANCE,
+          timeWindow: DEFAULT_TIME_WINDOW_MS,
+        });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not read the screen');
+    }
+  }, []);
+
+  const play = useCallback((next: InputMacro) => {
+    stop();
+    const { restart, getMidletTime, getScreenCanvas } = optionsRef.current;
+
+    restart().catch((err) => setError(err instanceof Error ? err.message : 'Restart failed'));
+    playbackRef.current = playMacro({
+      macro: next,
+      getTime: getMidletTime,
+      sendKey: (keyCode, pressed) => optionsRef.current.sendKeyEvent(keyCode, pressed),
+      sendPointer: (type, x, y) => optionsRef.current.sendPointerEvent(type, x, y),
+      check: (assertion) => checkAssertion(assertion, getScreenCanvas(), next.screen),
+      onResult: (result) => {
+        setResults((current) => [...current, result]);
+        optionsRef.current.onResult?.(result);
+      },
+      onDone: () => {
+        playbackRef.current = null;
+        setMode('idle');
+      },
+    });
+
+    setMacro(next);
+    setError(null);
+    setResults([]);
+    setMode('playing');
+  }, [stop]);
+
+  // Stop listening and playing on unmount
+  useEffect(() => () => {
+    optionsRef.current.setInputListener(null);
+    playbackRef.current?.stop();
+  }, []);
+
+  return { mode, macro, results, error, startRecording, addAssertion, play, stop };
+}
+
+export default useInputMacro;
@@ -0,0 +1,49 @@
+/**
+ * Java Console Hook
+ * Keeps the latest console entries of the running MIDlet for display
+ */
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { type LogEntry, type LogLevel } from '../utils/javaConsole';
+
+// Oldest entries are dropped past this, so chatty games cannot exhaust memory
+const MAX_ENTRIES = 5000;
+
+interface UseJavaConsoleReturn {
+  entries: LogEntry[];
+  log: (level: LogLevel, text: string) => void;
+  clear: () => void;
+}
+
+export function useJavaConsole(): UseJavaConsoleReturn {
+  const [entries, setEntries] = useState<LogEntry[]>([]);
+  const pendingRef = useRef<LogEntry[]>([]);
+  const frameRef = useRef<number | null>(null);
+  const nextIdRef = useRef(1);
+
+  // Games may print every frame; render at most once per animation frame
+  const log = useCallback((level: LogLevel, text: string) => {
+    pendingRef.current.push({ id: nextIdRef.current++, time: Date.now(), level, text });
+    if (frameRef.current !== null) return;
+
+    frameRef.current = requestAnimationFrame(() => {
+      frameRef.current = null;
+      const pending = pendingRef.current;
+      pendingRef.current = [];
+      setEntries((current) => [...current, ...pending].slice(-MAX_ENTRIES));
+    });
+  }, []);
+
+  const clear = useCallback(() => {
+    pendingRef.current = [];
+    setEntries([]);
+  }, []);
+
+  useEffect(() => () => {
+    if (frameRef.current !== null) cancelAnimationFrame(frameRef.current);
+  }, []);
+
+  return { entries, log, clear };
+}
+
+export default useJavaConsole;
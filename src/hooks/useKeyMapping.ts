@@ -0,0 +1,105 @@
+/**
+ * Key Mapping Hook
+ * Active keyboard mapping: the game's own if it has one, else the global one
+ */
+
+import { useCallback, useEffect, useState } from 'react';
+import { DEFAULT_KEY_MAPPING, type KeyboardLayoutMap, type KeyMapping } from '../utils/keyMapping';
+
+export type KeyMappingScope = 'game' | 'global';
+
+interface StoredKeyMappings {
+  global?: KeyMapping;
+  games: Record<string, KeyMapping>;
+}
+
+interface UseKeyMappingReturn {
+  mapping: KeyMapping;
+  /** Whether the active mapping belongs to the game rather than being global */
+  scope: KeyMappingScope;
+  /** Labels of the user's keyboard layout, when the browser exposes them */
+  layout: KeyboardLayoutMap | null;
+  saveMapping: (mapping: KeyMapping, scope: KeyMappingScope) => void;
+  /** Drop the game's mapping and fall back on the global one */
+  clearGameMapping: () => void;
+}
+
+const STORAGE_KEY = 'j2me-browser:key-mappings';
+
+function readStoredMappings(): StoredKeyMappings {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '{}');
+    return { global: stored.global, games: stored.games ?? {} };
+  } catch {
+    return { games: {} };
+  }
+}
+
+function writeStoredMappings(mappings: StoredKeyMappings): void {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(mappings));
+  } catch {
+    // Storage may be unavailable (private mode); keep the in-memory mapping
+  }
+}
+
+// Keyboard Map API, not yet in the DOM typings
+interface NavigatorKeyboard {
+  getLayoutMap: () => Promise<KeyboardLayoutMap>;
+}
+
+export function useKeyMapping(gameId?: string): UseKeyMappingReturn {
+  const [stored, setStored] = useState<StoredKeyMappings>(readStoredMappings);
+  const [layout, setLayout] = useState<KeyboardLayoutMap | null>(null);
+
+  useEffect(() => {
+    const keyboard = (navigator as Navigator & { keyboard?: NavigatorKeyboard }).keyboard;
+    let cancelled = false;
+
+    keyboard?.getLayoutMap()
+      .then((map) => {
+        if (!cancelled) setLayout(map);
+      })
+      .catch(() => {
+        // Not allowed in this context; labels fall back on US QWERTY
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const gameMapping = gameId ? stored.games[gameId] : undefined;
+
+  const saveMapping = useCallback((mapping: KeyMapping, scope: KeyMappingScope) => {
+    setStored((current) => {
+      const next: StoredKeyMappings = scope === 'game' && gameId
+        ? { ...current, games: { ...current.games, [gameId]: mapping } }
+        : { ...current, global: mapping };
+      writeStoredMappings(next);
+      return next;
+    });
+  }, [gameId]);
+
+  const clearGameMapping = useCallback(() => {
+    if (!gameId) return;
+
+    setStored((current) => {
+      const games = { ...current.games };
+      delete games[gameId];
+      const next = { ...current, games };
+      writeStoredMappings(next);
+      return next;
+    });
+  }, [gameId]);
+
+  return {
+    mapping: gameMapping ?? stored.global ?? DEFAULT_KEY_MAPPING,
+    scope: gameMapping ? 'game' : 'global',
+    layout,
+    saveMapping,
+    clearGameMapping,
+  };
+}
+
+export default useKeyMapping;
@@ -0,0 +1,37 @@
+/**
+ * Play Time Hook
+ * Adds the time a library game spends running to its play stats
+ */
+
+import { useEffect } from 'react';
+import { addPlayTime, markPlayed } from '../utils/gameLibrary';
+
+// Save progress regularly so a crashed tab loses little
+const FLUSH_INTERVAL_MS = 30000;
+
+export function usePlayTime(gameId: string | null, isRunning: boolean): void {
+  useEffect(() => {
+    if (gameId) markPlayed(gameId).catch(() => {});
+  }, [gameId]);
+
+  useEffect(() => {
+    if (!gameId || !isRunning) return;
+
+    let since = performance.now();
+    const flush = () => {
+      const now = performance.now();
+      addPlayTime(gameId, Math.round(now - since)).catch(() => {});
+      since = now;
+    };
+
+    const interval = window.setInterval(flush, FLUSH_INTERVAL_MS);
+    window.addEventListener('pagehide', flush);
+    return () => {
+      window.clearInterval(interval);
+      window.removeEventListener('pagehide', flush);
+      flush();
+    };
+  }, [gameId, isRunning]);
+}
+
+export default usePlayTime;
@@ -0,0 +1,93 @@
+/**
+ * Screen Capture Hook
+ * Screenshot, video and GIF capture of the game screen, saved as downloads
+ */
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { getAudioStream } from '../utils/audioEngine';
+import { downloadBlob, toFileName } from '../utils/download';
+import {
+  captureScreenshot,
+  startGifRecording,
+  startVideoRecording,
+  type Recording,
+} from '../utils/screenCapture';
+import { type Size } from '../utils/screenLayout';
+
+export type CaptureKind = 'video' | 'gif';
+
+interface UseScreenCaptureReturn {
+  takeScreenshot: () => Promise<void>;
+  /** What is being recorded, if anything */
+  recording: CaptureKind | null;
+  toggleRecording: (kind: CaptureKind) => Promise<void>;
+  error: string | null;
+}
+
+const EXTENSIONS: Record<CaptureKind | 'screenshot', string> = {
+  screenshot: 'png',
+  video: 'webm',
+  gif: 'gif',
+};
+
+function captureFileName(title: string, kind: CaptureKind | 'screenshot'): string {
+  const timestamp = new Date().toISOString().slice(0, 19).replace(/[:T]/g, '-');
+  return `${toFileName(title)}-${timestamp}.${EXTENSIONS[kind]}`;
+}
+
+export function useScreenCapture(
+  getScreenCanvas: () => HTMLCanvasElement | null,
+  screen: Size,
+  title: string
+): UseScreenCaptureReturn {
+  const [recording, setRecording] = useState<CaptureKind | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const recorderRef = useRef<Recording | null>(null);
+
+  const takeScreenshot = useCallback(async () => {
+    const canvas = getScreenCanvas();
+    if (!canvas) return;
+
+    try {
+      setError(null);
+      downloadBlob(await captureScreenshot(canvas, screen), captureFileName(title, 'screenshot'));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Screenshot failed');
+    }
+  }, [getScreenCanvas, screen, title]);
+
+  const toggleRecording = useCallback(async (kind: CaptureKind) => {
+    const current = recorderRef.current;
+    if (current) {
+      recorderRef.current = null;
+      setRecording(null);
+      if (recording) downloadBlob(await current.stop(), captureFileName(title, recording));
+      return;
+    }
+
+    if (!getScreenCanvas()) return;
+
+    try {
+      setError(null);
+      // The only audio the app plays is the MIDlet's beeps
+      recorderRef.current = kind === 'video'
+        ? startVideoRecording(getScreenCanvas, screen, getAudioStream())
+        : startGifRecording(getScreenCanvas, screen);
+      setRecording(kind);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Recording failed');
+    }
+  }, [getScreenCanvas, screen, title, recording]);
+
+  // Leaving the game ends the recording without saving it
+  useEffect(() => {
+    return () => {
+      recorderRef.current?.cancel();
+      recorderRef.current = null;
+    };
+  }, []);
+
+  return { takeScreenshot, recording, toggleRecording, error };
+}
+
+export default useScreenCapture;
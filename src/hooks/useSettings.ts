@@ -0,0 +1,75 @@
+/**
+ * Settings Hook
+ * Emulator preferences, persisted across sessions
+ */
+
+import { useCallback, useState } from 'react';
+import { DEFAULT_KEY_REPEAT } from '../utils/inputBridge';
+import {
+  DEFAULT_DEAD_ZONE,
+  DEFAULT_GAMEPAD_BUTTONS,
+  type GamepadButtonMapping,
+} from '../utils/gamepad';
+
+export interface Settings {
+  /** Delay before a held key starts repeating, in ms (0 disables repeat) */
+  keyRepeatDelay: number;
+  /** Interval between repeats of a held key, in ms */
+  keyRepeatInterval: number;
+  /** Left stick travel ignored around the center, from 0 to 1 */
+  gamepadDeadZone: number;
+  gamepadButtons: GamepadButtonMapping;
+  /** Master volume, from 0 to 1 */
+  volume: number;
+  muted: boolean;
+  /** URL of a self-hosted cj3loader.js; empty for the default runtime */
+  runtimeUrl: string;
+  /** Show FPS, frame times, heap and startup times over the screen */
+  showPerformanceHud: boolean;
+}
+
+export const DEFAULT_SETTINGS: Settings = {
+  keyRepeatDelay: DEFAULT_KEY_REPEAT.delay,
+  keyRepeatInterval: DEFAULT_KEY_REPEAT.interval,
+  gamepadDeadZone: DEFAULT_DEAD_ZONE,
+  gamepadButtons: DEFAULT_GAMEPAD_BUTTONS,
+  volume: 0.8,
+  muted: false,
+  runtimeUrl: '',
+  showPerformanceHud: false,
+};
+
+const STORAGE_KEY = 'j2me-browser:settings';
+
+/**
+ * Settings as last saved, for code running outside of components
+ */
+export function readStoredSettings(): Settings {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '{}');
+    return { ...DEFAULT_SETTINGS, ...stored };
+  } catch {
+    return DEFAULT_SETTINGS;
+  }
+}
+
+export function useSettings(): [Settings, (changes: Partial<Settings>) => void] {
+  const [settings, setSettings] = useState<Settings>(readStoredSettings);
+
+  const updateSettings = useCallback((changes: Partial<Settings>) => {
+    setSettings((current) => {
+      const next = { ...current, ...changes };
+
+      try {
+        localStorage.setItem(STORAGE_KEY, JSON.stringify(next));
+      } catch {
+        // Storage may be unavailable (private mode); keep the in-memory settings
+      }
+      return next;
+    });
+  }, []);
+
+  return [settings, updateSettings];
+}
+
+export default useSettings;
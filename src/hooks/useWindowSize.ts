@@ -0,0 +1,26 @@
+/**
+ * Window Size Hook
+ * Viewport size, updated on resize and orientation changes
+ */
+
+import { useEffect, useState } from 'react';
+import { type Size } from '../utils/screenLayout';
+
+function readWindowSize(): Size {
+  return { width: window.innerWidth, height: window.innerHeight };
+}
+
+export function useWindowSize(): Size {
+  const [size, setSize] = useState<Size>(readWindowSize);
+
+  useEffect(() => {
+    const handleResize = () => setSize(readWindowSize());
+
+    window.addEventListener('resize', handleResize);
+    return () => window.removeEventListener('resize', handleResize);
+  }, []);
+
+  return size;
+}
+
+export default useWindowSize;
@@ -1,10 +1,50 @@
 import { StrictMode } from 'react'
 import { createRoot } from 'react-dom/client'
+// Fonts are bundled so the app looks the same offline
+import '@fontsource/inter/latin-400.css'
+import '@fontsource/inter/latin-500.css'
+import '@fontsource/inter/latin-600.css'
+import '@fontsource/inter/latin-700.css'
+import '@fontsource/outfit/latin-500.css'
+import '@fontsource/outfit/latin-600.css'
+import '@fontsource/outfit/latin-700.css'
+import '@fontsource/jetbrains-mono/latin-400.css'
+import '@fontsource/jetbrains-mono/latin-500.css'
 import './index.css'
 import App from './App.tsx'
+import MacroRunner from './components/MacroRunner'
+import EmbedPlayer from './components/EmbedPlayer'
+import { readStoredSettings } from './hooks/useSettings'
+import { resolveLoaderUrl } from './utils/runtimeLoader'
+import { registerServiceWorker } from './utils/serviceWorker'
+import { parseEmbedOptions } from './utils/embedProtocol'
+
+registerServiceWorker(resolveLoaderUrl(readStoredSettings().runtimeUrl))
+
+// ?run=<macro URL> replays a macro headlessly, ?embed shows the player
+// alone for other pages to frame, instead of the app
+const params = new URLSearchParams(location.search)
+const macroUrl = params.get('run')
+
+// The player talks only to the origin the host names, as ?origin=
+function embedParentOrigin(): string | null {
+  const origin = params.get('origin')
+  if (!origin || !URL.canParse(origin)) return null
+  return new URL(origin).origin === origin ? origin : null
+}
 
 createRoot(document.getElementById('root')!).render(
   <StrictMode>
-    <App />
+    {macroUrl ? (
+      <MacroRunner macroUrl={macroUrl} jarUrl={params.get('jar')} speed={params.get('speed')} />
+    ) : params.has('embed') ? (
+      <EmbedPlayer
+        src={params.get('src')}
+        options={parseEmbedOptions((name) => params.get(name))}
+        parentOrigin={embedParentOrigin()}
+      />
+    ) : (
+      <App />
+    )}
   </StrictMode>,
 )
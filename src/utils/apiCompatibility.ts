@@ -0,0 +1,148 @@
+/**
+ * API Compatibility Utility
+ * Maps referenced Java packages to the optional APIs the emulator provides
+ */
+
+export type APISupport = "supported" | "stubbed" | "missing";
+
+export interface APIDefinition {
+    id: string;
+    name: string;
+    packages: string[];
+    support: APISupport;
+}
+
+export interface APIUsage {
+    api: APIDefinition;
+    classes: string[];
+}
+
+export interface CompatibilityReport {
+    apis: APIUsage[];
+    /** Referenced packages that are neither in the JAR nor in the catalogue */
+    unknownPackages: string[];
+    classCount: number;
+    unreadableClasses: string[];
+}
+
+/**
+ * Optional and vendor APIs the runtime knows about
+ */
+export const API_CATALOG: APIDefinition[] = [
+    {
+        id: "midp",
+        name: "MIDP 2.0 / CLDC 1.1",
+        packages: [
+            "javax.microedition.midlet",
+            "javax.microedition.lcdui",
+            "javax.microedition.rms",
+            "javax.microedition.io",
+            "javax.microedition.pki",
+        ],
+        support: "supported",
+    },
+    { id: "jsr135", name: "JSR-135 Mobile Media API", packages: ["javax.microedition.media"], support: "stubbed" },
+    { id: "jsr184", name: "JSR-184 Mobile 3D Graphics (M3G)", packages: ["javax.microedition.m3g"], support: "missing" },
+    {
+        id: "jsr75",
+        name: "JSR-75 FileConnection & PIM",
+        packages: ["javax.microedition.io.file", "javax.microedition.pim"],
+        support: "missing",
+    },
+    { id: "jsr82", name: "JSR-82 Bluetooth", packages: ["javax.bluetooth", "javax.obex"], support: "missing" },
+    { id: "jsr120", name: "JSR-120/205 Wireless Messaging", packages: ["javax.wireless.messaging"], support: "stubbed" },
+    { id: "jsr172", name: "JSR-172 Web Services", packages: ["javax.microedition.xml", "javax.xml"], support: "missing" },
+    {
+        id: "jsr177",
+        name: "JSR-177 Security and Trust",
+        packages: ["javax.microedition.apdu", "javax.microedition.jcrmi", "javax.microedition.securityservice"],
+        support: "missing",
+    },
+    { id: "jsr179", name: "JSR-179 Location", packages: ["javax.microedition.location"], support: "missing" },
+    { id: "jsr226", name: "JSR-226 Scalable 2D Vector Graphics", packages: ["javax.microedition.m2g"], support: "missing" },
+    { id: "jsr234", name: "JSR-234 Advanced Multimedia Supplements", packages: ["javax.microedition.amms"], support: "missing" },
+    {
+        id: "jsr239",
+        name: "JSR-239 OpenGL ES",
+        packages: ["javax.microedition.khronos", "javax.microedition.lcdui.opengles"],
+        support: "missing",
+    },
+    { id: "jsr256", name: "JSR-256 Mobile Sensor API", packages: ["javax.microedition.sensor"], support: "missing" },
+    { id: "nokia-ui", name: "Nokia UI API", packages: ["com.nokia.mid.ui", "com.nokia.mid.sound"], support: "stubbed" },
+    { id: "nokia-ext", name: "Nokia extensions", packages: ["com.nokia"], support: "missing" },
+    { id: "siemens", name: "Siemens API", packages: ["com.siemens"], support: "missing" },
+    { id: "samsung", name: "Samsung API", packages: ["com.samsung"], support: "missing" },
+    { id: "motorola", name: "Motorola API", packages: ["com.motorola"], support: "missing" },
+    { id: "sonyericsson", name: "Sony Ericsson API", packages: ["com.sonyericsson", "com.sony"], support: "missing" },
+    { id: "lg", name: "LG API", packages: ["com.lge", "mmpp"], support: "missing" },
+    { id: "mascot", name: "MascotCapsule 3D", packages: ["com.mascotcapsule"], support: "missing" },
+    { id: "vodafone", name: "Vodafone (VSCL) API", packages: ["com.vodafone"], support: "missing" },
+];
+
+// Packages provided by every CLDC runtime
+const CORE_PACKAGES = ["java.lang", "java.io", "java.util"];
+
+function inPackage(className: string, pkg: string): boolean {
+    return className.startsWith(`${pkg}.`);
+}
+
+function packageOf(className: string): string {
+    const index = className.lastIndexOf(".");
+    return index === -1 ? "(default)" : className.substring(0, index);
+}
+
+/**
+ * Find the catalogue entry with the most specific matching package
+ */
+export function findAPI(className: string): APIDefinition | null {
+    let best: APIDefinition | null = null;
+    let bestLength = 0;
+
+    for (const api of API_CATALOG) {
+        for (const pkg of api.packages) {
+            if (inPackage(className, pkg) && pkg.length > bestLength) {
+                best = api;
+                bestLength = pkg.length;
+            }
+        }
+    }
+
+    return best;
+}
+
+/**
+ * Build a compatibility report from the classes a suite references
+ */
+export function buildCompatibilityReport(
+    references: Set<string>,
+    definedClasses: Set<string>,
+    unreadableClasses: string[] = []
+): CompatibilityReport {
+    const usage = new Map<APIDefinition, Set<string>>();
+    const unknownPackages = new Set<string>();
+
+    for (const className of references) {
+        if (definedClasses.has(className)) continue;
+        if (CORE_PACKAGES.some((pkg) => inPackage(className, pkg))) continue;
+
+        const api = findAPI(className);
+        if (api) {
+            if (!usage.has(api)) usage.set(api, new Set());
+            usage.get(api)!.add(className);
+        } else {
+            unknownPackages.add(packageOf(className));
+        }
+    }
+
+    const apis = API_CATALOG.filter((api) => usage.has(api)).map((api) => ({
+        api,
+        classes: Array.from(usage.get(api)!).sort(),
+    }));
+
+    return {
+        apis,
+        unknownPackages: Array.from(unknownPackages).sort(),
+        classCount: definedClasses.size,
+        unreadableClasses,
+    };
+}
@@ -0,0 +1,89 @@
+/**
+ * Audio Engine Utility
+ * Page-wide Web Audio context with master volume, playing the tones of
+ * Toolkit.beep and AlertType sounds
+ */
+
+let context: AudioContext | null = null;
+let masterGain: GainNode | null = null;
+let recordingDestination: MediaStreamAudioDestinationNode | null = null;
+const master = { volume: 1, muted: false };
+
+/**
+ * The shared context, created on first use. Browsers keep it suspended
+ * until the user interacts with the page.
+ */
+export function getAudioContext(): { context: AudioContext; destination: AudioNode } {
+    if (!context || !masterGain) {
+        context = new AudioContext();
+        masterGain = context.createGain();
+        masterGain.gain.value = master.muted ? 0 : master.volume;
+        masterGain.connect(context.destination);
+
+        const unlock = () => {
+            context?.resume().catch(() => {});
+            window.removeEventListener("pointerdown", unlock, true);
+            window.removeEventListener("keydown", unlock, true);
+        };
+        window.addEventListener("pointerdown", unlock, true);
+        window.addEventListener("keydown", unlock, true);
+    }
+
+    return { context, destination: masterGain };
+}
+
+/**
+ * Master volume, from 0 to 1, applied to everything played
+ */
+export function setMasterVolume(volume: number, muted: boolean): void {
+    master.volume = volume;
+    master.muted = muted;
+    if (context && masterGain) {
+        masterGain.gain.setTargetAtTime(muted ? 0 : volume, context.currentTime, 0.02);
+    }
+}
+
+/**
+ * Stream of everything played, after the master volume, for recording
+ */
+export function getAudioStream(): MediaStream {
+    const { context, destination } = getAudioContext();
+    if (!recordingDestination) {
+        recordingDestination = context.createMediaStreamDestination();
+        destination.connect(recordingDestination);
+    }
+    return recordingDestination.stream;
+}
+
+/**
+ * Stop or restart the audio clock, e.g. while the MIDlet is paused
+ */
+export function suspendAudio(): Promise<void> {
+    return context?.suspend() ?? Promise.resolve();
+}
+
+export function resumeAudio(): Promise<void> {
+    return context?.resume() ?? Promise.resolve();
+}
+
+/**
+ * Play a single tone right away; note is a MIDI note number
+ */
+export function playTone(note: number, durationMs: number, volume: number): void {
+    const { context, destination } = getAudioContext();
+    const start = context.currentTime;
+    const end = start + Math.max(durationMs, 0) / 1000;
+    const peak = (Math.min(Math.max(volume, 0), 100) / 100) * 0.25;
+
+    const oscillator = context.createOscillator();
+    oscillator.type = "square";
+    oscillator.frequency.value = 440 * Math.pow(2, (note - 69) / 12);
+
+    const envelope = context.createGain();
+    envelope.gain.setValueAtTime(peak, start);
+    envelope.gain.setTargetAtTime(0, end, 0.01);
+
+    oscillator.connect(envelope).connect(destination);
+    oscillator.start(start);
+    oscillator.stop(end + 0.05);
+}
@@ -0,0 +1,219 @@
+/**
+ * Batch Import Utility
+ * Imports whole collections into the library: dropped folders, many files
+ * at once and ZIPs full of JARs and JADs, paired into suites automatically
+ */
+
+import JSZip from "jszip";
+import { parseJAD } from "./jarParser";
+import { installSuite, jarFileName } from "./otaInstaller";
+import { addGame } from "./gameLibrary";
+
+export interface ImportSource {
+    /** Path within the drop, with directories and ZIP names, for pairing and display */
+    path: string;
+    /** Read the file; entries of a ZIP are only extracted when needed */
+    open: () => Promise<File>;
+}
+
+/** A suite to install: a JAR, a JAD, or a JAD + JAR pair */
+export interface ImportGroup {
+    name: string;
+    sources: ImportSource[];
+}
+
+export type ImportStatus = "pending" | "ok" | "warnings" | "failed";
+
+export interface ImportResult {
+    name: string;
+    status: ImportStatus;
+    /** Why the import failed, or its first warning */
+    message: string | null;
+}
+
+const SUITE_FILE = /\.(jar|jad)$/i;
+
+function baseName(path: string): string {
+    return path.substring(path.lastIndexOf("/") + 1);
+}
+
+function dirName(path: string): string {
+    return path.substring(0, path.lastIndexOf("/") + 1);
+}
+
+function stem(path: string): string {
+    return baseName(path).replace(/\.[^.]*$/, "").toLowerCase();
+}
+
+const hasExtension = (path: string, ext: string) => path.toLowerCase().endsWith(ext);
+
+export function fromFiles(files: File[]): ImportSource[] {
+    return files.map((file) => ({
+        path: file.webkitRelativePath || file.name,
+        open: () => Promise.resolve(file),
+    }));
+}
+
+function readEntryFile(entry: FileSystemFileEntry): Promise<File> {
+    return new Promise((resolve, reject) => entry.file(resolve, reject));
+}
+
+async function readDirectory(directory: FileSystemDirectoryEntry): Promise<FileSystemEntry[]> {
+    const reader = directory.createReader();
+    const entries: FileSystemEntry[] = [];
+
+    // readEntries returns at most ~100 entries per call
+    for (;;) {
+        const batch = await new Promise<FileSystemEntry[]>((resolve, reject) =>
+            reader.readEntries(resolve, reject)
+        );
+        if (batch.length === 0) return entries;
+        entries.push(...batch);
+    }
+}
+
+/**
+ * Walk dropped files and folders. Entries must be taken from the
+ * DataTransfer synchronously, inside the drop handler.
+ */
+export async function fromEntries(entries: FileSystemEntry[]): Promise<ImportSource[]> {
+    const sources: ImportSource[] = [];
+    const pending = [...entries];
+
+    while (pending.length > 0) {
+        const entry = pending.shift()!;
+        if (entry.isDirectory) {
+            pending.push(...(await readDirectory(entry as FileSystemDirectoryEntry)));
+        } else if (entry.isFile) {
+            const fileEntry = entry as FileSystemFileEntry;
+            sources.push({ path: entry.fullPath.replace(/^\//, ""), open: () => readEntryFile(fileEntry) });
+        }
+    }
+
+    return sources;
+}
+
+/**
+ * Replace ZIP collections by the JARs and JADs inside them. ZIPs that
+ * cannot be read are reported as failed.
+ */
+export async function expandCollections(
+    sources: ImportSource[]
+): Promise<{ sources: ImportSource[]; failures: ImportResult[] }> {
+    const expanded: ImportSource[] = [];
+    const failures: ImportResult[] = [];
+
+    for (const source of sources) {
+        if (!hasExtension(source.path, ".zip")) {
+            if (SUITE_FILE.test(source.path)) expanded.push(source);
+            continue;
+        }
+
+        try {
+            const zip = await new JSZip().loadAsync(await source.open());
+            for (const entry of Object.values(zip.files)) {
+                if (entry.dir || !SUITE_FILE.test(entry.name)) continue;
+                expanded.push({
+                    path: `${source.path}/${entry.name}`,
+                    open: async () => new File([await entry.async("blob")], baseName(entry.name)),
+                });
+            }
+        } catch {
+            failures.push({
+                name: source.path,
+                status: "failed",
+                message: "Not a readable ZIP archive",
+            });
+        }
+    }
+
+    return { sources: expanded, failures };
+}
+
+/**
+ * Match every JAD with its JAR: the one named by MIDlet-Jar-URL, or else
+ * the one with the same name. A JAR in the JAD's own folder wins; one
+ * elsewhere only when it is the only candidate, as the pairing would
+ * otherwise be a guess and the JAD stays unpaired. Other JARs are suites
+ * of their own.
+ */
+export async function pairSuites(sources: ImportSource[]): Promise<ImportGroup[]> {
+    const jads = sources.filter((source) => hasExtension(source.path, ".jad"));
+    const jars = new Set(sources.filter((source) => hasExtension(source.path, ".jar")));
+    const groups: ImportGroup[] = [];
+
+    const claim = (jad: ImportSource, matches: (jar: ImportSource) => boolean) => {
+        const candidates = Array.from(jars).filter(matches);
+        const jar = candidates.find((c) => dirName(c.path) === dirName(jad.path))
+            ?? (candidates.length === 1 ? candidates[0] : undefined);
+        if (jar) jars.delete(jar);
+        return jar;
+    };
+
+    for (const jad of jads) {
+        let wanted: string | null = null;
+        try {
+            const descriptor = parseJAD(new Uint8Array(await (await jad.open()).arrayBuffer()));
+            const jarUrl = descriptor.rawManifest["MIDlet-Jar-URL"];
+            wanted = jarUrl ? jarFileName(jarUrl).toLowerCase() : null;
+        } catch {
+            // Installing the JAD on its own reports the problem
+        }
+
+        const jar =
+            (wanted !== null ? claim(jad, (c) => baseName(c.path).toLowerCase() === wanted) : undefined) ??
+            claim(jad, (c) => dirName(c.path) === dirName(jad.path) && stem(c.path) === stem(jad.path));
+
+        groups.push({ name: jad.path, sources: jar ? [jad, jar] : [jad] });
+    }
+
+    for (const jar of jars) {
+        groups.push({ name: jar.path, sources: [jar] });
+    }
+
+    return groups.sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/**
+ * Install one suite and add it to the library
+ */
+export async function importSuite(group: ImportGroup): Promise<ImportResult> {
+    try {
+        const files = await Promise.all(group.sources.map((source) => source.open()));
+        const { archive, manifest } = await installSuite(files);
+        await addGame(archive, manifest);
+
+        // Errors that did not stop the install count as warnings, listed first
+        const issues = [
+            ...manifest.manifestIssues.filter((issue) => issue.severity === "error"),
+            ...manifest.manifestIssues.filter((issue) => issue.severity === "warning"),
+        ];
+        return issues.length > 0
+            ? {
+                name: group.name,
+                status: "warnings",
+                message: issues.length > 1
+                    ? `${issues[0].message} (+${issues.length - 1} more)`
+                    : issues[0].message,
+            }
+            : { name: group.name, status: "ok", message: null };
+    } catch (err) {
+        return {
+            name: group.name,
+            status: "failed",
+            message: err instanceof Error ? err.message : "Import failed",
+        };
+    }
+}
+
+/**
+ * Import suites one after another, reporting each result as it comes
+ */
+export async function importSuites(
+    groups: ImportGroup[],
+    onResult: (index: number, result: ImportResult) => void
+): Promise<void> {
+    for (let i = 0; i < groups.length; i++) {
+        onResult(i, await importSuite(groups[i]));
+    }
+}
@@ -0,0 +1,132 @@
+/**
+ * Class Scanner Utility
+ * Reads the constant pool of .class files to find referenced classes
+ */
+
+const CLASS_MAGIC = 0xcafebabe;
+
+// Constant pool tags
+const CONSTANT_UTF8 = 1;
+const CONSTANT_INTEGER = 3;
+const CONSTANT_FLOAT = 4;
+const CONSTANT_LONG = 5;
+const CONSTANT_DOUBLE = 6;
+const CONSTANT_CLASS = 7;
+const CONSTANT_STRING = 8;
+const CONSTANT_FIELDREF = 9;
+const CONSTANT_METHODREF = 10;
+const CONSTANT_INTERFACE_METHODREF = 11;
+const CONSTANT_NAME_AND_TYPE = 12;
+const CONSTANT_METHOD_HANDLE = 15;
+const CONSTANT_METHOD_TYPE = 16;
+const CONSTANT_DYNAMIC = 17;
+const CONSTANT_INVOKE_DYNAMIC = 18;
+const CONSTANT_MODULE = 19;
+const CONSTANT_PACKAGE = 20;
+
+const DESCRIPTOR_CLASS = /L([^;]+);/g;
+
+const utf8Decoder = new TextDecoder("utf-8");
+
+/**
+ * Convert an internal class name ("java/lang/String") to a dotted one
+ */
+function toClassName(internalName: string): string {
+    return internalName.replace(/\//g, ".");
+}
+
+/**
+ * Collect every class referenced from a class file's constant pool,
+ * including classes that only appear in field and method descriptors
+ */
+export function readClassReferences(data: Uint8Array): Set<string> {
+    const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+
+    if (data.byteLength < 10 || view.getUint32(0) !== CLASS_MAGIC) {
+        throw new Error("Invalid class file: bad magic number");
+    }
+
+    const count = view.getUint16(8);
+    const utf8: (string | undefined)[] = new Array(count);
+    const classIndices: number[] = [];
+    const descriptorIndices: number[] = [];
+    let offset = 10;
+
+    for (let i = 1; i < count; i++) {
+        const tag = view.getUint8(offset);
+        offset += 1;
+
+        switch (tag) {
+            case CONSTANT_UTF8: {
+                const length = view.getUint16(offset);
+                utf8[i] = utf8Decoder.decode(data.subarray(offset + 2, offset + 2 + length));
+                offset += 2 + length;
+                break;
+            }
+            case CONSTANT_CLASS:
+                classIndices.push(view.getUint16(offset));
+                offset += 2;
+                break;
+            case CONSTANT_NAME_AND_TYPE:
+                descriptorIndices.push(view.getUint16(offset + 2));
+                offset += 4;
+                break;
+            case CONSTANT_METHOD_TYPE:
+                descriptorIndices.push(view.getUint16(offset));
+                offset += 2;
+                break;
+            case CONSTANT_STRING:
+            case CONSTANT_MODULE:
+            case CONSTANT_PACKAGE:
+                offset += 2;
+                break;
+            case CONSTANT_METHOD_HANDLE:
+                offset += 3;
+                break;
+            case CONSTANT_INTEGER:
+            case CONSTANT_FLOAT:
+            case CONSTANT_FIELDREF:
+            case CONSTANT_METHODREF:
+            case CONSTANT_INTERFACE_METHODREF:
+            case CONSTANT_DYNAMIC:
+            case CONSTANT_INVOKE_DYNAMIC:
+                offset += 4;
+                break;
+            case CONSTANT_LONG:
+            case CONSTANT_DOUBLE:
+                // 8-byte constants take two pool slots
+                offset += 8;
+                i++;
+                break;
+            default:
+                throw new Error(`Invalid class file: unknown constant pool tag ${tag}`);
+        }
+    }
+
+    const references = new Set<string>();
+
+    for (const index of classIndices) {
+        const name = utf8[index];
+        if (!name) continue;
+
+        if (name.startsWith("[")) {
+            // Array class: only the element type is interesting
+            for (const match of name.matchAll(DESCRIPTOR_CLASS)) {
+                references.add(toClassName(match[1]));
+            }
+        } else {
+            references.add(toClassName(name));
+        }
+    }
+
+    for (const index of descriptorIndices) {
+        const descriptor = utf8[index];
+        if (!descriptor) continue;
+
+        for (const match of descriptor.matchAll(DESCRIPTOR_CLASS)) {
+            references.add(toClassName(match[1]));
+        }
+    }
+
+    return references;
+}
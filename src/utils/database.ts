@@ -0,0 +1,63 @@
+/**
+ * Database Utility
+ * The app's IndexedDB database, holding the game library
+ */
+
+const DB_NAME = "j2me-browser";
+const DB_VERSION = 3;
+
+/** Object stores of earlier versions, deleted on upgrade */
+const OBSOLETE_STORES = ["recordStores"];
+/** Imported games, keyed by the SHA-256 of their JAR */
+export const GAMES = "games";
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+    dbPromise ??= new Promise<IDBDatabase>((resolve, reject) => {
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+        request.onupgradeneeded = () => {
+            const db = request.result;
+            for (const name of OBSOLETE_STORES) {
+                if (db.objectStoreNames.contains(name)) db.deleteObjectStore(name);
+            }
+            if (!db.objectStoreNames.contains(GAMES)) {
+                db.createObjectStore(GAMES, { keyPath: "id" });
+            }
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error ?? new Error("Failed to open IndexedDB"));
+    }).catch((err) => {
+        dbPromise = null;
+        throw err;
+    });
+
+    return dbPromise;
+}
+
+/**
+ * Run requests against one object store in a single transaction
+ */
+export async function withStore<T>(
+    storeName: string,
+    mode: IDBTransactionMode,
+    action: (store: IDBObjectStore) => IDBRequest<T> | void
+): Promise<T | undefined> {
+    const db = await openDatabase();
+
+    return new Promise<T | undefined>((resolve, reject) => {
+        const transaction = db.transaction(storeName, mode);
+        const request = action(transaction.objectStore(storeName));
+        let result: T | undefined;
+
+        if (request) {
+            request.onsuccess = () => {
+                result = request.result;
+            };
+        }
+        transaction.oncomplete = () => resolve(result);
+        transaction.onerror = () => reject(transaction.error ?? new Error("IndexedDB transaction failed"));
+        transaction.onabort = () => reject(transaction.error ?? new Error("IndexedDB transaction aborted"));
+    });
+}
@@ -0,0 +1,180 @@
+/**
+ * Device Profiles
+ * Handset presets: screen size, vendor key codes and system properties
+ */
+
+import { J2ME_KEYS, type J2MEKeyName } from "./j2meKeys";
+
+export interface DeviceProfile {
+    id: string;
+    name: string;
+    /** Screen size, or null to use the size the suite was built for */
+    screenWidth: number | null;
+    screenHeight: number | null;
+    /** Vendor key codes, overriding the standard Nokia-style codes */
+    keyCodes: Partial<Record<J2MEKeyName, number>>;
+    /** Touch screen: whether pointer input on the screen reaches the MIDlet */
+    hasPointerEvents: boolean;
+    /** System properties returned by System.getProperty */
+    properties: Record<string, string>;
+}
+
+const MIDP2_PROPERTIES: Record<string, string> = {
+    "microedition.configuration": "CLDC-1.1",
+    "microedition.profiles": "MIDP-2.0",
+    "microedition.encoding": "ISO-8859-1",
+    "microedition.locale": "en-US",
+};
+
+const MOTOROLA_KEYS: DeviceProfile["keyCodes"] = {
+    SOFT_LEFT: -21,
+    SOFT_RIGHT: -22,
+    UP: -1,
+    DOWN: -6,
+    LEFT: -2,
+    RIGHT: -5,
+    FIRE: -20,
+};
+
+const SIEMENS_KEYS: DeviceProfile["keyCodes"] = {
+    SOFT_LEFT: -1,
+    SOFT_RIGHT: -4,
+    UP: -59,
+    DOWN: -60,
+    LEFT: -61,
+    RIGHT: -62,
+    FIRE: -26,
+};
+
+export const DEVICE_PROFILES: DeviceProfile[] = [
+    {
+        id: "generic",
+        name: "Generic (game size)",
+        screenWidth: null,
+        screenHeight: null,
+        keyCodes: {},
+        hasPointerEvents: false,
+        properties: { ...MIDP2_PROPERTIES, "microedition.platform": "j2me" },
+    },
+    {
+        id: "nokia-s40",
+        name: "Nokia S40 (6300)",
+        screenWidth: 240,
+        screenHeight: 320,
+        keyCodes: {},
+        hasPointerEvents: false,
+        properties: { ...MIDP2_PROPERTIES, "microedition.platform": "Nokia6300/07.21" },
+    },
+    {
+        id: "nokia-s40-small",
+        name: "Nokia S40 (6230i)",
+        screenWidth: 208,
+        screenHeight: 208,
+        keyCodes: {},
+        hasPointerEvents: false,
+        properties: {
+            ...MIDP2_PROPERTIES,
+            "microedition.configuration": "CLDC-1.0",
+            "microedition.platform": "Nokia6230i/03.80",
+        },
+    },
+    {
+        id: "nokia-s60",
+        name: "Nokia S60 (N73)",
+        screenWidth: 240,
+        screenHeight: 320,
+        keyCodes: {},
+        hasPointerEvents: false,
+        properties: { ...MIDP2_PROPERTIES, "microedition.platform": "NokiaN73-1/4.0736.3.2.1" },
+    },
+    {
+        id: "nokia-5800",
+        name: "Nokia 5800 XpressMusic (touch)",
+        screenWidth: 360,
+        screenHeight: 640,
+        keyCodes: {},
+        hasPointerEvents: true,
+        properties: {
+            ...MIDP2_PROPERTIES,
+            "microedition.platform": "Nokia5800d-1/52.0.007",
+            "com.nokia.mid.ui.version": "1.4",
+        },
+    },
+    {
+        id: "se-k750",
+        name: "Sony Ericsson K750",
+        screenWidth: 176,
+        screenHeight: 220,
+        keyCodes: {},
+        hasPointerEvents: false,
+        properties: {
+            ...MIDP2_PROPERTIES,
+            "microedition.platform": "SonyEricssonK750i/R1AA008",
+            "com.sonyericsson.java.platform": "JP-6",
+        },
+    },
+    {
+        id: "se-satio",
+        name: "Sony Ericsson Satio (touch)",
+        screenWidth: 360,
+        screenHeight: 640,
+        keyCodes: {},
+        hasPointerEvents: true,
+        properties: {
+            ...MIDP2_PROPERTIES,
+            "microedition.platform": "SonyEricssonU1i/R1BA",
+        },
+    },
+    {
+        id: "moto-razr",
+        name: "Motorola RAZR V3",
+        screenWidth: 176,
+        screenHeight: 220,
+        keyCodes: MOTOROLA_KEYS,
+        hasPointerEvents: false,
+        properties: {
+            ...MIDP2_PROPERTIES,
+            "microedition.configuration": "CLDC-1.0",
+            "microedition.platform": "MOT-V3",
+        },
+    },
+    {
+        id: "siemens",
+        name: "Siemens CX65",
+        screenWidth: 132,
+        screenHeight: 176,
+        keyCodes: SIEMENS_KEYS,
+        hasPointerEvents: false,
+        properties: {
+            ...MIDP2_PROPERTIES,
+            "microedition.configuration": "CLDC-1.0",
+            "microedition.platform": "SIE-CX65/12",
+        },
+    },
+];
+
+export const DEFAULT_PROFILE = DEVICE_PROFILES[0];
+
+/**
+ * Find a profile by id, falling back on the default one
+ */
+export function getDeviceProfile(id: string | null | undefined): DeviceProfile {
+    return DEVICE_PROFILES.find((profile) => profile.id === id) ?? DEFAULT_PROFILE;
+}
+
+/**
+ * Translate a standard J2ME key code into the profile's vendor key code
+ */
+export function translateKeyCode(profile: DeviceProfile, keyCode: number): number {
+    const name = (Object.keys(J2ME_KEYS) as J2MEKeyName[]).find(
+        (key) => J2ME_KEYS[key] === keyCode
+    );
+    return (name && profile.keyCodes[name]) ?? keyCode;
+}
+
+/**
+ * Format the profile's system properties for CheerpJOptions.javaProperties
+ */
+export function toJavaProperties(profile: DeviceProfile): string[] {
+    return Object.entries(profile.properties).map(([key, value]) => `${key}=${value}`);
+}
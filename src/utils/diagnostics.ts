@@ -0,0 +1,62 @@
+/**
+ * Diagnostics Utility
+ * Bundles everything needed to triage a bug report into one ZIP
+ */
+
+import JSZip from "jszip";
+import { formatLog, type LogEntry } from "./javaConsole";
+import { type JarArchive } from "./jarArchive";
+import { type JARManifest, type MIDletInfo } from "./jarParser";
+
+export interface DiagnosticInput {
+    archive: JarArchive;
+    manifest: JARManifest;
+    midlet: MIDletInfo | null;
+    entries: LogEntry[];
+    status: string;
+    error: string | null;
+    /** Active settings, device profile, display options and the like, by name */
+    settings: Record<string, unknown>;
+}
+
+/**
+ * Build the bundle: console.log with the full console, manifest.json with
+ * the suite's attributes and issues, and report.json with the JAR hash,
+ * runtime state, environment and settings
+ */
+export async function createDiagnosticBundle(input: DiagnosticInput): Promise<Blob> {
+    const { archive, manifest, midlet, entries, status, error, settings } = input;
+    const zip = new JSZip();
+
+    zip.file("console.log", formatLog(entries));
+    zip.file("manifest.json", JSON.stringify({
+        encoding: manifest.manifestEncoding,
+        attributes: manifest.rawManifest,
+        sections: manifest.manifestSections,
+        issues: manifest.manifestIssues,
+    }, null, 2));
+    zip.file("report.json", JSON.stringify({
+        generatedAt: new Date().toISOString(),
+        game: {
+            fileName: archive.file.name,
+            size: archive.file.size,
+            sha256: await archive.hash(),
+            name: manifest.midletName,
+            vendor: manifest.midletVendor,
+            version: manifest.midletVersion,
+            midlet: midlet?.className ?? manifest.className,
+            screen: `${manifest.screenWidth}x${manifest.screenHeight} (${manifest.screenSizeSource.origin})`,
+        },
+        runtime: { status, error },
+        environment: {
+            url: location.origin + location.pathname,
+            userAgent: navigator.userAgent,
+            language: navigator.language,
+            online: navigator.onLine,
+            serviceWorker: Boolean(navigator.serviceWorker?.controller),
+        },
+        settings,
+    }, null, 2));
+
+    return zip.generateAsync({ type: "blob", compression: "DEFLATE" });
+}
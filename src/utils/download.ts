@@ -0,0 +1,27 @@
+/**
+ * Download Utility
+ * Saves generated files to the user's device
+ */
+
+/**
+ * Trigger a browser download of a blob
+ */
+export function downloadBlob(blob: Blob, fileName: string): void {
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = fileName;
+    document.body.appendChild(link);
+    link.click();
+    link.remove();
+
+    // Give the browser time to start the download before revoking
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
+/**
+ * Turn arbitrary text into a safe file name fragment
+ */
+export function toFileName(text: string): string {
+    return text.replace(/[^\w.-]+/g, "_").replace(/^_+|_+$/g, "") || "untitled";
+}
@@ -0,0 +1,144 @@
+/**
+ * Embed Protocol Utility
+ * Messages between an embedded player frame and the page hosting it:
+ * commands with replies going in, events coming out
+ */
+
+// Types only: embed.js shares this module with the app, and a runtime
+// import would pull the app's modules into the chunk hosts download
+import type { EmulatorStatus } from "../hooks/useCheerpJ";
+import type { ScaleMode } from "./screenLayout";
+
+export const EMBED_CHANNEL = "j2me-player";
+
+const SCALE_MODES: ScaleMode[] = ["integer", "fit", "1x", "2x", "3x"];
+
+/** Player options, settable as attributes or URL parameters */
+export interface EmbedOptions {
+    /** Device profile id; the default profile when unknown */
+    device?: string;
+    scale?: ScaleMode;
+    keypad?: boolean;
+}
+
+/** Arguments of each command */
+export interface EmbedCommands {
+    /** A JAR by URL, resolved against the player page, or as a Blob */
+    load: [source: string | Blob];
+    /** Press or release a key; a short tap when pressed is omitted */
+    pressKey: [keyCode: number, pressed?: boolean];
+    pause: [];
+    resume: [];
+    /** PNG of the screen at native resolution */
+    screenshot: [];
+    configure: [options: EmbedOptions];
+}
+
+/** Result of each command */
+export interface EmbedResults {
+    load: void;
+    pressKey: void;
+    pause: void;
+    resume: void;
+    screenshot: Blob;
+    configure: void;
+}
+
+export type EmbedMethod = keyof EmbedCommands;
+
+/** Details of each event */
+export interface EmbedEvents {
+    /** The player is listening for commands */
+    ready: null;
+    status: { status: EmulatorStatus };
+    error: { message: string };
+    /** The MIDlet ended itself */
+    exit: null;
+}
+
+export type EmbedCommandMessage = {
+    [M in EmbedMethod]: { channel: typeof EMBED_CHANNEL; kind: "command"; id: number; method: M; args: EmbedCommands[M] };
+}[EmbedMethod];
+
+export interface EmbedReplyMessage {
+    channel: typeof EMBED_CHANNEL;
+    kind: "reply";
+    id: number;
+    result?: unknown;
+    error?: string;
+}
+
+export type EmbedEventMessage = {
+    [E in keyof EmbedEvents]: { channel: typeof EMBED_CHANNEL; kind: "event"; event: E; detail: EmbedEvents[E] };
+}[keyof EmbedEvents];
+
+export type EmbedMessage = EmbedCommandMessage | EmbedReplyMessage | EmbedEventMessage;
+
+export function isEmbedMessage(data: unknown): data is EmbedMessage {
+    return typeof data === "object" && data !== null && (data as EmbedMessage).channel === EMBED_CHANNEL;
+}
+
+const isOptional = (value: unknown, check: (value: unknown) => boolean) => value === undefined || check(value);
+
+function isEmbedOptions(value: unknown): value is EmbedOptions {
+    if (typeof value !== "object" || value === null) return false;
+    const { device, scale, keypad, ...rest } = value as Record<string, unknown>;
+    return Object.keys(rest).length === 0
+        && isOptional(device, (v) => typeof v === "string")
+        && isOptional(scale, (v) => SCALE_MODES.includes(v as ScaleMode))
+        && isOptional(keypad, (v) => typeof v === "boolean");
+}
+
+// Checks of each command's arguments against EmbedCommands
+const COMMAND_ARGS: Record<EmbedMethod, (args: unknown[]) => boolean> = {
+    load: ([source, ...rest]) => rest.length === 0 && (typeof source === "string" || source instanceof Blob),
+    pressKey: ([keyCode, pressed, ...rest]) =>
+        rest.length === 0 && Number.isInteger(keyCode) && isOptional(pressed, (v) => typeof v === "boolean"),
+    pause: (args) => args.length === 0,
+    resume: (args) => args.length === 0,
+    screenshot: (args) => args.length === 0,
+    configure: ([options, ...rest]) => rest.length === 0 && isEmbedOptions(options),
+};
+
+/**
+ * Whether a command names a known method, with arguments of its types
+ */
+export function isValidCommand(command: EmbedCommandMessage): boolean {
+    const { method, args } = command as { method: unknown; args: unknown };
+    return typeof method === "string"
+        && Object.hasOwn(COMMAND_ARGS, method)
+        && Array.isArray(args)
+        && COMMAND_ARGS[method as EmbedMethod](args);
+}
+
+/**
+ * Player URL for the options, opening with the JAR at src if given and
+ * taking commands from parentOrigin only
+ */
+export function embedUrl(
+    playerUrl: string | URL,
+    src: string | null,
+    options: EmbedOptions,
+    parentOrigin: string
+): string {
+    const url = new URL(playerUrl);
+    url.searchParams.set("embed", "");
+    url.searchParams.set("origin", parentOrigin);
+    if (src) url.searchParams.set("src", src);
+    if (options.device) url.searchParams.set("device", options.device);
+    if (options.scale) url.searchParams.set("scale", options.scale);
+    if (options.keypad === false) url.searchParams.set("keypad", "false");
+    return url.href;
+}
+
+/**
+ * Read options from URL parameters or element attributes
+ */
+export function parseEmbedOptions(get: (name: string) => string | null): EmbedOptions {
+    const scale = get("scale");
+    return {
+        device: get("device") ?? undefined,
+        scale: SCALE_MODES.find((mode) => mode === scale),
+        keypad: get("keypad") !== "false",
+    };
+}
@@ -0,0 +1,110 @@
+/**
+ * Game Library Utility
+ * Keeps imported JARs in IndexedDB with their manifest, icon and play stats
+ */
+
+import { GAMES, withStore } from "./database";
+import { openJarArchive, type JarArchive } from "./jarArchive";
+import { type JARManifest } from "./jarParser";
+
+export interface LibraryGame {
+    /** SHA-256 of the JAR, so importing the same file twice keeps one entry */
+    id: string;
+    fileName: string;
+    jar: Blob;
+    manifest: JARManifest;
+    /** Suite icon as a data URL */
+    icon: string | null;
+    addedAt: number;
+    lastPlayedAt: number | null;
+    /** Total time spent running, in ms */
+    playTime: number;
+    favorite: boolean;
+}
+
+export async function listGames(): Promise<LibraryGame[]> {
+    return (await withStore<LibraryGame[]>(GAMES, "readonly", (store) => store.getAll())) ?? [];
+}
+
+export async function getGame(id: string): Promise<LibraryGame | null> {
+    return (await withStore<LibraryGame>(GAMES, "readonly", (store) => store.get(id))) ?? null;
+}
+
+async function putGame(game: LibraryGame): Promise<void> {
+    await withStore(GAMES, "readwrite", (store) => store.put(game));
+}
+
+/**
+ * Add a game, or refresh the JAR and manifest of one already in the
+ * library while keeping its stats
+ */
+export async function addGame(archive: JarArchive, manifest: JARManifest): Promise<LibraryGame> {
+    const id = await archive.hash();
+    if (!id) throw new Error("Cannot read the JAR file");
+
+    const iconPath = manifest.rawManifest["MIDlet-Icon"] || manifest.midlets[0]?.icon;
+    const icon = iconPath ? await archive.icon(iconPath) : null;
+    const existing = await getGame(id);
+
+    const game: LibraryGame = {
+        addedAt: Date.now(),
+        lastPlayedAt: null,
+        playTime: 0,
+        favorite: false,
+        ...existing,
+        id,
+        fileName: archive.file.name,
+        jar: archive.file,
+        manifest,
+        icon,
+    };
+    await putGame(game);
+
+    // Ask once for storage the browser will not evict under pressure
+    navigator.storage?.persist?.().catch(() => {});
+    return game;
+}
+
+/**
+ * Change some fields of a game. Missing games are ignored. The read and
+ * the write share a transaction, so concurrent updates never undo each other.
+ */
+export async function updateGame(
+    id: string,
+    update: (game: LibraryGame) => Partial<Pick<LibraryGame, "favorite" | "lastPlayedAt" | "playTime">>
+): Promise<void> {
+    await withStore(GAMES, "readwrite", (store) => {
+        const request: IDBRequest<LibraryGame | undefined> = store.get(id);
+        request.onsuccess = () => {
+            const game = request.result;
+            if (game) store.put({ ...game, ...update(game) });
+        };
+    });
+}
+
+export function setFavorite(id: string, favorite: boolean): Promise<void> {
+    return updateGame(id, () => ({ favorite }));
+}
+
+export function markPlayed(id: string): Promise<void> {
+    return updateGame(id, () => ({ lastPlayedAt: Date.now() }));
+}
+
+export function addPlayTime(id: string, ms: number): Promise<void> {
+    if (ms <= 0) return Promise.resolve();
+    return updateGame(id, (game) => ({ playTime: game.playTime + ms, lastPlayedAt: Date.now() }));
+}
+
+export async function deleteGame(id: string): Promise<void> {
+    await withStore(GAMES, "readwrite", (store) => store.delete(id));
+}
+
+/**
+ * Reopen the JAR of a library game
+ */
+export function openLibraryGame(game: LibraryGame): Promise<JarArchive> {
+    const file = game.jar instanceof File
+        ? game.jar
+        : new File([game.jar], game.fileName, { type: "application/java-archive" });
+    return openJarArchive(file);
+}
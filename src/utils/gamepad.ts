@@ -0,0 +1,68 @@
+/**
+ * Gamepad Utility
+ * Translate Gamepad API state into J2ME key presses
+ */
+
+import { J2ME_KEYS, type J2MEKeyName } from "./j2meKeys";
+
+/** J2ME key bound to each button index of a standard-mapping pad */
+export type GamepadButtonMapping = Partial<Record<number, J2MEKeyName>>;
+
+export const DEFAULT_GAMEPAD_BUTTONS: GamepadButtonMapping = {
+    0: "FIRE",
+    1: "KEY_0",
+    2: "KEY_1",
+    3: "KEY_3",
+    4: "KEY_7",
+    5: "KEY_9",
+    6: "KEY_STAR",
+    7: "KEY_HASH",
+    8: "SOFT_RIGHT",
+    9: "SOFT_LEFT",
+    12: "UP",
+    13: "DOWN",
+    14: "LEFT",
+    15: "RIGHT",
+};
+
+export const DEFAULT_DEAD_ZONE = 0.3;
+
+/** Button names of the W3C standard gamepad layout */
+export const GAMEPAD_BUTTON_LABELS = [
+    "A", "B", "X", "Y",
+    "LB", "RB", "LT", "RT",
+    "Back", "Start", "Left stick", "Right stick",
+    "D-pad ↑", "D-pad ↓", "D-pad ←", "D-pad →",
+    "Home",
+];
+
+// Analog triggers count as pressed past this point
+const TRIGGER_THRESHOLD = 0.5;
+
+/**
+ * J2ME key codes held on a pad: mapped buttons, plus the left stick as
+ * directions once it leaves the dead zone
+ */
+export function readGamepadKeys(
+    pad: Gamepad,
+    buttons: GamepadButtonMapping,
+    deadZone: number
+): Set<number> {
+    const keys = new Set<number>();
+
+    pad.buttons.forEach((button, index) => {
+        const key = buttons[index];
+        if (key && (button.pressed || button.value > TRIGGER_THRESHOLD)) {
+            keys.add(J2ME_KEYS[key]);
+        }
+    });
+
+    const [x = 0, y = 0] = pad.axes;
+    if (Math.hypot(x, y) > deadZone) {
+        // Each axis adds its own direction, so diagonals work
+        if (Math.abs(x) > deadZone / 2) keys.add(x < 0 ? J2ME_KEYS.LEFT : J2ME_KEYS.RIGHT);
+        if (Math.abs(y) > deadZone / 2) keys.add(y < 0 ? J2ME_KEYS.UP : J2ME_KEYS.DOWN);
+    }
+
+    return keys;
+}
@@ -0,0 +1,186 @@
+/**
+ * GIF Encoder Utility
+ * Encodes RGBA frames into a looping animated GIF, entirely in the browser
+ */
+
+export interface GifFrame {
+    /** RGBA pixels, width * height * 4 bytes */
+    pixels: Uint8ClampedArray;
+    /** How long the frame shows, in ms */
+    delay: number;
+}
+
+const MAX_CODE = 4096;
+
+interface IndexedFrame {
+    indices: Uint8Array;
+    /** RGB triplets */
+    palette: number[];
+}
+
+/**
+ * Map pixels to palette indices. Frames with at most 256 colours, which is
+ * most J2ME screens, keep them exactly; others use a 6x7x6 colour cube.
+ */
+function indexFrame(pixels: Uint8ClampedArray): IndexedFrame {
+    const count = pixels.length / 4;
+    const indices = new Uint8Array(count);
+    const colors = new Map<number, number>();
+    const palette: number[] = [];
+
+    for (let i = 0; i < count; i++) {
+        const rgb = (pixels[i * 4] << 16) | (pixels[i * 4 + 1] << 8) | pixels[i * 4 + 2];
+        let index = colors.get(rgb);
+        if (index === undefined) {
+            if (colors.size === 256) return indexFrameWithCube(pixels);
+            index = colors.size;
+            colors.set(rgb, index);
+            palette.push(rgb >> 16, (rgb >> 8) & 0xff, rgb & 0xff);
+        }
+        indices[i] = index;
+    }
+
+    return { indices, palette };
+}
+
+function indexFrameWithCube(pixels: Uint8ClampedArray): IndexedFrame {
+    const levels = [6, 7, 6];
+    const palette: number[] = [];
+    for (let r = 0; r < levels[0]; r++) {
+        for (let g = 0; g < levels[1]; g++) {
+            for (let b = 0; b < levels[2]; b++) {
+                palette.push(
+                    Math.round((r * 255) / (levels[0] - 1)),
+                    Math.round((g * 255) / (levels[1] - 1)),
+                    Math.round((b * 255) / (levels[2] - 1))
+                );
+            }
+        }
+    }
+
+    const quantize = (value: number, level: number) => Math.round((value * (level - 1)) / 255);
+    const indices = new Uint8Array(pixels.length / 4);
+    for (let i = 0; i < indices.length; i++) {
+        const r = quantize(pixels[i * 4], levels[0]);
+        const g = quantize(pixels[i * 4 + 1], levels[1]);
+        const b = quantize(pixels[i * 4 + 2], levels[2]);
+        indices[i] = (r * levels[1] + g) * levels[2] + b;
+    }
+
+    return { indices, palette };
+}
+
+/**
+ * Variable-length LZW compression, as GIF image data expects
+ */
+function lzwEncode(indices: Uint8Array, minCodeSize: number): number[] {
+    const clearCode = 1 << minCodeSize;
+    const endCode = clearCode + 1;
+    const output: number[] = [];
+
+    let codeSize = minCodeSize + 1;
+    let nextCode = endCode + 1;
+    let table = new Map<number, number>();
+    let buffer = 0;
+    let bufferBits = 0;
+
+    const emit = (code: number) => {
+        buffer |= code << bufferBits;
+        bufferBits += codeSize;
+        while (bufferBits >= 8) {
+            output.push(buffer & 0xff);
+            buffer >>= 8;
+            bufferBits -= 8;
+        }
+    };
+
+    emit(clearCode);
+    let prefix = indices[0];
+
+    for (let i = 1; i < indices.length; i++) {
+        const k = indices[i];
+        const key = (prefix << 8) | k;
+        const code = table.get(key);
+
+        if (code !== undefined) {
+            prefix = code;
+            continue;
+        }
+
+        emit(prefix);
+        if (nextCode === MAX_CODE) {
+            emit(clearCode);
+            table = new Map();
+            codeSize = minCodeSize + 1;
+            nextCode = endCode + 1;
+        } else {
+            // Grow before adding the first code that needs the extra bit
+            if (nextCode >= 1 << codeSize) codeSize++;
+            table.set(key, nextCode++);
+        }
+        prefix = k;
+    }
+
+    emit(prefix);
+    emit(endCode);
+    if (bufferBits > 0) output.push(buffer & 0xff);
+
+    return output;
+}
+
+/**
+ * Encode frames of the given size into an animated GIF that loops forever
+ */
+export function encodeGif(width: number, height: number, frames: GifFrame[]): Blob {
+    const bytes: number[] = [];
+    const append = (values: ArrayLike<number>) => {
+        for (let i = 0; i < values.length; i++) bytes.push(values[i] & 0xff);
+    };
+    const word = (value: number) => append([value, value >> 8]);
+    const text = (value: string) => append(Array.from(value, (char) => char.charCodeAt(0)));
+
+    text("GIF89a");
+    word(width);
+    word(height);
+    append([0, 0, 0]); // No global colour table
+
+    // Loop forever
+    append([0x21, 0xff, 0x0b]);
+    text("NETSCAPE2.0");
+    append([0x03, 0x01, 0x00, 0x00, 0x00]);
+
+    for (const frame of frames) {
+        const { indices, palette } = indexFrame(frame.pixels);
+        const colorBits = Math.max(1, Math.ceil(Math.log2(palette.length / 3)));
+        const minCodeSize = Math.max(2, colorBits);
+
+        // Graphic control: leave the frame in place, set its delay
+        append([0x21, 0xf9, 0x04, 0x04]);
+        word(Math.round(frame.delay / 10));
+        append([0x00, 0x00]);
+
+        // Image descriptor with a local colour table
+        append([0x2c]);
+        word(0);
+        word(0);
+        word(width);
+        word(height);
+        append([0x80 | (colorBits - 1)]);
+        append(palette);
+        for (let i = palette.length / 3; i < 1 << colorBits; i++) {
+            append([0, 0, 0]);
+        }
+
+        append([minCodeSize]);
+        const data = lzwEncode(indices, minCodeSize);
+        for (let offset = 0; offset < data.length; offset += 255) {
+            const block = data.slice(offset, offset + 255);
+            append([block.length]);
+            append(block);
+        }
+        append([0]);
+    }
+
+    append([0x3b]);
+    return new Blob([new Uint8Array(bytes)], { type: "image/gif" });
+}
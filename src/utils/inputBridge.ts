@@ -0,0 +1,91 @@
+/**
+ * Input Bridge Utility
+ * Tracks held keys and generates auto-repeat for the running MIDlet,
+ * so several keys can be held at once
+ */
+
+export type KeyEventType = "keyPressed" | "keyReleased" | "keyRepeated";
+
+export type PointerEventType = "pointerPressed" | "pointerDragged" | "pointerReleased";
+
+export interface KeyRepeatConfig {
+    /** Delay before the first keyRepeated, in ms (0 disables repeat) */
+    delay: number;
+    /** Interval between keyRepeated events, in ms */
+    interval: number;
+}
+
+export interface InputBridgeOptions {
+    /** Deliver an event to the MIDlet, with the vendor key code */
+    send: (type: KeyEventType, keyCode: number) => void;
+    /** Translate a standard key code into the device's vendor code */
+    translate: (keyCode: number) => number;
+    repeat: KeyRepeatConfig;
+}
+
+export interface InputBridge {
+    press: (keyCode: number) => void;
+    release: (keyCode: number) => void;
+    /** Release every held key, e.g. when the game loses focus */
+    releaseAll: () => void;
+    setRepeat: (repeat: KeyRepeatConfig) => void;
+    dispose: () => void;
+}
+
+export const DEFAULT_KEY_REPEAT: KeyRepeatConfig = { delay: 400, interval: 100 };
+
+export function createInputBridge(options: InputBridgeOptions): InputBridge {
+    const { send, translate } = options;
+    let repeat = options.repeat;
+
+    // Held keys (standard codes) and their repeat timers
+    const held = new Map<number, ReturnType<typeof setTimeout> | null>();
+
+    const scheduleRepeat = (keyCode: number, wait: number) => {
+        if (repeat.delay <= 0) return null;
+
+        return setTimeout(() => {
+            if (!held.has(keyCode)) return;
+            send("keyRepeated", translate(keyCode));
+            held.set(keyCode, scheduleRepeat(keyCode, repeat.interval));
+        }, wait);
+    };
+
+    const release = (keyCode: number) => {
+        if (!held.has(keyCode)) return;
+
+        const timer = held.get(keyCode);
+        if (timer) clearTimeout(timer);
+        held.delete(keyCode);
+
+        send("keyReleased", translate(keyCode));
+    };
+
+    return {
+        press: (keyCode) => {
+            // Ignore browser auto-repeat: repeats are generated here
+            if (held.has(keyCode)) return;
+
+            held.set(keyCode, null);
+            send("keyPressed", translate(keyCode));
+            if (held.has(keyCode)) {
+                held.set(keyCode, scheduleRepeat(keyCode, repeat.delay));
+            }
+        },
+        release,
+        releaseAll: () => {
+            for (const keyCode of Array.from(held.keys())) {
+                release(keyCode);
+            }
+        },
+        setRepeat: (next) => {
+            repeat = next;
+        },
+        dispose: () => {
+            for (const timer of held.values()) {
+                if (timer) clearTimeout(timer);
+            }
+            held.clear();
+        },
+    };
+}
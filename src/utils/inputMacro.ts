@@ -0,0 +1,284 @@
+/**
+ * Input Macro Utility
+ * Recorded key and pointer input with screen assertions, stored as JSON
+ * and replayed against a fresh launch of the MIDlet
+ */
+
+import { type PointerEventType } from "./inputBridge";
+import { captureScreenshot, readScreenPixels } from "./screenCapture";
+import { type Size } from "./screenLayout";
+
+export const MACRO_FORMAT = "j2me-browser-macro";
+
+export interface ScreenRegion {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+/**
+ * Times are MIDlet time in ms since the game first painted, so they follow
+ * the emulation speed and not how long the runtime took to start
+ */
+export type MacroEvent =
+    | { time: number; type: "key"; keyCode: number; pressed: boolean }
+    | { time: number; type: "pointer"; event: PointerEventType; x: number; y: number };
+
+export type MacroAssertion =
+    | {
+        time: number;
+        type: "screen-hash";
+        name?: string;
+        /** SHA-256 of the RGBA pixels */
+        hash: string;
+        region?: ScreenRegion;
+        /** MIDlet ms after time during which a failing check is retried */
+        timeWindow?: number;
+    }
+    | {
+        time: number;
+        type: "screen-match";
+        name?: string;
+        /** Reference image, as a data URL or a URL relative to the macro */
+        reference: string;
+        region?: ScreenRegion;
+        /** Share of pixels allowed to differ, 0-1 */
+        tolerance?: number;
+        /** MIDlet ms after time during which a failing check is retried */
+        timeWindow?: number;
+    };
+
+export interface InputMacro {
+    format: typeof MACRO_FORMAT;
+    version: 1;
+    game?: {
+        name: string;
+        vendor: string;
+        version: string;
+        /** JAR to launch in the headless runner, relative to the macro */
+        jar?: string;
+    };
+    /** Device profile id the macro was recorded with */
+    device?: string;
+    screen: Size;
+    events: MacroEvent[];
+    assertions: MacroAssertion[];
+}
+
+export interface AssertionResult {
+    name: string;
+    time: number;
+    passed: boolean;
+    message: string;
+}
+
+// Channel difference still counted as the same colour
+const CHANNEL_TOLERANCE = 8;
+
+export function parseMacro(text: string): InputMacro {
+    let data: Partial<InputMacro>;
+    try {
+        data = JSON.parse(text);
+    } catch {
+        throw new Error("Invalid macro: not a JSON file");
+    }
+
+    if (data.format !== MACRO_FORMAT) {
+        throw new Error("Invalid macro: not a J2ME Browser macro");
+    }
+    if (data.version !== 1) {
+        throw new Error(`Unsupported macro version ${data.version}`);
+    }
+    if (!data.screen || !Array.isArray(data.events)) {
+        throw new Error("Invalid macro: screen or events are missing");
+    }
+
+    return { ...data, assertions: data.assertions ?? [] } as InputMacro;
+}
+
+export function serializeMacro(macro: InputMacro): Blob {
+    return new Blob([JSON.stringify(macro, null, 2)], { type: "application/json" });
+}
+
+function assertionName(assertion: MacroAssertion): string {
+    return assertion.name ?? `${assertion.type} at ${Math.round(assertion.time)} ms`;
+}
+
+function toHex(buffer: ArrayBuffer): string {
+    return Array.from(new Uint8Array(buffer), (b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+export async function hashScreen(canvas: HTMLCanvasElement, screen: Size, region?: ScreenRegion): Promise<string> {
+    const { data } = readScreenPixels(canvas, screen, region);
+    return toHex(await crypto.subtle.digest("SHA-256", data));
+}
+
+/**
+ * The screen as a PNG data URL, to embed as the reference of a screen-match
+ */
+export async function captureReference(canvas: HTMLCanvasElement, screen: Size): Promise<string> {
+    const blob = await captureScreenshot(canvas, screen);
+    return new Promise((resolve, reject) => {
+        const reader = new FileReader();
+        reader.onload = () => resolve(reader.result as string);
+        reader.onerror = () => reject(new Error("Failed to capture the screen"));
+        reader.readAsDataURL(blob);
+    });
+}
+
+async function loadReference(reference: string, baseUrl: string, region: ScreenRegion): Promise<ImageData> {
+    const response = await fetch(new URL(reference, baseUrl));
+    if (!response.ok) throw new Error(`Reference image ${reference}: HTTP ${response.status}`);
+
+    const bitmap = await createImageBitmap(await response.blob());
+    const canvas = document.createElement("canvas");
+    canvas.width = region.width;
+    canvas.height = region.height;
+    const context = canvas.getContext("2d")!;
+    context.drawImage(bitmap, 0, 0);
+    bitmap.close();
+    return context.getImageData(0, 0, region.width, region.height);
+}
+
+function countDifferences(actual: ImageData, expected: ImageData): number {
+    let differences = 0;
+    for (let i = 0; i < actual.data.length; i += 4) {
+        for (let c = 0; c < 3; c++) {
+            if (Math.abs(actual.data[i + c] - expected.data[i + c]) > CHANNEL_TOLERANCE) {
+                differences++;
+                break;
+            }
+        }
+    }
+    return differences;
+}
+
+/**
+ * Check an assertion against the screen as it is now
+ */
+export async function checkAssertion(
+    assertion: MacroAssertion,
+    canvas: HTMLCanvasElement | null,
+    screen: Size,
+    baseUrl: string = location.href
+): Promise<AssertionResult> {
+    const result = (passed: boolean, message: string): AssertionResult => ({
+        name: assertionName(assertion),
+        time: assertion.time,
+        passed,
+        message,
+    });
+
+    if (!canvas) return result(false, "The screen is not available");
+
+    try {
+        if (assertion.type === "screen-hash") {
+            const hash = await hashScreen(canvas, screen, assertion.region);
+            return hash === assertion.hash
+                ? result(true, "Screen hash matches")
+                : result(false, `Screen hash is ${hash}, expected ${assertion.hash}`);
+        }
+
+        const region = assertion.region ?? { x: 0, y: 0, ...screen };
+        const actual = readScreenPixels(canvas, screen, region);
+        const expected = await loadReference(assertion.reference, baseUrl, region);
+        const share = countDifferences(actual, expected) / (region.width * region.height);
+        const tolerance = assertion.tolerance ?? 0;
+        const percent = (share * 100).toFixed(2);
+
+        return share <= tolerance
+            ? result(true, `Screen matches the reference (${percent}% different)`)
+            : result(false, `${percent}% of pixels differ from the reference, ${(tolerance * 100).toFixed(2)}% allowed`);
+    } catch (err) {
+        return result(false, err instanceof Error ? err.message : "Assertion failed");
+    }
+}
+
+export interface MacroPlayback {
+    stop: () => void;
+}
+
+interface PlayMacroOptions {
+    macro: InputMacro;
+    /** MIDlet time since its first paint, or null until it has painted */
+    getTime: () => number | null;
+    sendKey: (keyCode: number, pressed: boolean) => void;
+    sendPointer: (type: PointerEventType, x: number, y: number) => void;
+    check: (assertion: MacroAssertion) => Promise<AssertionResult>;
+    onResult?: (result: AssertionResult) => void;
+    onDone: (results: AssertionResult[]) => void;
+}
+
+// Longest wait between checks of the MIDlet's clock, which speed changes move
+const MAX_POLL_MS = 50;
+
+/**
+ * Replay a macro: events and assertions in time order, each once the
+ * MIDlet's clock reaches it. Assertions run after events of the same time;
+ * one that fails is checked again until its time window has passed, as
+ * the MIDlet may draw a little earlier or later than when it was recorded.
+ */
+export function playMacro(options: PlayMacroOptions): MacroPlayback {
+    const { macro, getTime, sendKey, sendPointer, check, onResult, onDone } = options;
+    const steps = [
+        ...macro.events.map((event) => ({ time: event.time, event, assertion: null })),
+        ...macro.assertions.map((assertion) => ({ time: assertion.time, event: null, assertion })),
+    ].sort((a, b) => a.time - b.time || Number(a.event === null) - Number(b.event === null));
+
+    const results: AssertionResult[] = [];
+    // Failed assertions still within their time window
+    const retrying = new Set<MacroAssertion>();
+    let next = 0;
+    let timer: number | undefined;
+    let stopped = false;
+
+    const attempt = async (assertion: MacroAssertion, time: number) => {
+        const result = await check(assertion);
+        if (!result.passed && time < assertion.time + (assertion.timeWindow ?? 0)) {
+            retrying.add(assertion);
+            return;
+        }
+        retrying.delete(assertion);
+        results.push(result);
+        onResult?.(result);
+    };
+
+    const tick = async () => {
+        const time = getTime();
+
+        if (time !== null) {
+            for (const assertion of Array.from(retrying)) {
+                if (!stopped) await attempt(assertion, time);
+            }
+            while (!stopped && next < steps.length && steps[next].time <= time) {
+                const { event, assertion } = steps[next++];
+                if (event?.type === "key") {
+                    sendKey(event.keyCode, event.pressed);
+                } else if (event?.type === "pointer") {
+                    sendPointer(event.event, event.x, event.y);
+                } else if (assertion) {
+                    await attempt(assertion, time);
+                }
+            }
+        }
+
+        if (stopped) return;
+        if (next === steps.length && retrying.size === 0) {
+            onDone(results);
+            return;
+        }
+
+        const wait = time !== null && next < steps.length ? steps[next].time - time : MAX_POLL_MS;
+        timer = window.setTimeout(tick, Math.min(Math.max(wait, 0), MAX_POLL_MS));
+    };
+
+    timer = window.setTimeout(tick, 0);
+
+    return {
+        stop: () => {
+            stopped = true;
+            window.clearTimeout(timer);
+        },
+    };
+}
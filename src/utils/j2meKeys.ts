@@ -0,0 +1,30 @@
+/**
+ * J2ME Keys Utility
+ * Standard MIDP key codes
+ */
+
+// J2ME Key Codes
+export const J2ME_KEYS = {
+    UP: -1,
+    DOWN: -2,
+    LEFT: -3,
+    RIGHT: -4,
+    FIRE: -5,
+    SOFT_LEFT: -6,
+    SOFT_RIGHT: -7,
+    KEY_0: 48,
+    KEY_1: 49,
+    KEY_2: 50,
+    KEY_3: 51,
+    KEY_4: 52,
+    KEY_5: 53,
+    KEY_6: 54,
+    KEY_7: 55,
+    KEY_8: 56,
+    KEY_9: 57,
+    KEY_STAR: 42,
+    KEY_HASH: 35,
+} as const;
+
+export type J2MEKeyName = keyof typeof J2ME_KEYS;
+
@@ -0,0 +1,217 @@
+/**
+ * JAR Archive Utility
+ * Opens a JAR once and caches what is derived from it for the loader,
+ * launcher and runtime
+ */
+
+import JSZip from "jszip";
+import { parseJARManifest, withScreenSize, type JARManifest } from "./jarParser";
+import { readClassReferences } from "./classScanner";
+import {
+    buildCompatibilityReport,
+    type CompatibilityReport,
+} from "./apiCompatibility";
+import {
+    guessScreenSizeFromImages,
+    isFullScreenImageName,
+    readImageSize,
+    type ImageInfo,
+} from "./screenSize";
+
+export interface JarArchive {
+    /** The original file, handed to the runtime as-is */
+    file: File;
+    /** Paths of every file entry (directories excluded) */
+    entries: string[];
+    /** Paths of every .class entry */
+    classes: string[];
+    /** Paths of every non-class entry outside META-INF */
+    resources: string[];
+    has: (path: string) => boolean;
+    read: (path: string) => Promise<Uint8Array | null>;
+    manifest: () => Promise<JARManifest>;
+    icon: (path: string) => Promise<string | null>;
+    /** SHA-256 of the whole archive, or of a single entry when a path is given */
+    hash: (path?: string) => Promise<string | null>;
+    compatibility: () => Promise<CompatibilityReport>;
+}
+
+const MANIFEST_PATH = "META-INF/MANIFEST.MF";
+
+const IMAGE_TYPES: Record<string, string> = {
+    png: "image/png",
+    gif: "image/gif",
+    jpg: "image/jpeg",
+    jpeg: "image/jpeg",
+    bmp: "image/bmp",
+};
+
+// Upper bound on images decoded when guessing the screen size
+const MAX_SIZE_PROBES = 40;
+
+// One archive per file for the lifetime of the page
+const archives = new WeakMap<Blob, Promise<JarArchive>>();
+
+/**
+ * Normalize a resource path as written in a manifest ("/icon.png")
+ */
+function normalizePath(path: string): string {
+    return path.trim().replace(/^\/+/, "");
+}
+
+function toHex(buffer: ArrayBuffer): string {
+    return Array.from(new Uint8Array(buffer), (b) =>
+        b.toString(16).padStart(2, "0")
+    ).join("");
+}
+
+/**
+ * Memoize an async computation per key
+ */
+function memoize<T>(compute: (key: string) => Promise<T>): (key: string) => Promise<T> {
+    const cache = new Map<string, Promise<T>>();
+
+    return (key: string) => {
+        let result = cache.get(key);
+        if (!result) {
+            result = compute(key);
+            cache.set(key, result);
+        }
+        return result;
+    };
+}
+
+async function createArchive(file: File): Promise<JarArchive> {
+    let zip: JSZip;
+
+    try {
+        zip = await new JSZip().loadAsync(file);
+    } catch {
+        throw new Error("Invalid JAR: the file is not a readable ZIP archive");
+    }
+
+    const entries = Object.values(zip.files)
+        .filter((entry) => !entry.dir)
+        .map((entry) => entry.name);
+    const classes = entries.filter((path) => path.endsWith(".class"));
+    const resources = entries.filter(
+        (path) => !path.endsWith(".class") && !path.startsWith("META-INF/")
+    );
+
+    const has = (path: string) => zip.file(normalizePath(path)) !== null;
+
+    // Entries are inflated on every read: callers keep what they need, and
+    // caching every entry would hold a second copy of large JARs
+    const read = async (path: string) => {
+        const entry = zip.file(normalizePath(path));
+        return entry ? entry.async("uint8array") : null;
+    };
+
+    let manifest: Promise<JARManifest> | null = null;
+    let compatibility: Promise<CompatibilityReport> | null = null;
+
+    const icon = memoize(async (path: string) => {
+        try {
+            const entry = zip.file(normalizePath(path));
+            if (!entry) return null;
+
+            const iconData = await entry.async("base64");
+            const ext = path.split(".").pop()?.toLowerCase() || "png";
+
+            return `data:${IMAGE_TYPES[ext] || "image/png"};base64,${iconData}`;
+        } catch {
+            return null;
+        }
+    });
+
+    /**
+     * Read the dimensions of likely full-screen images, then of top-level ones
+     */
+    const probeImages = async (): Promise<ImageInfo[]> => {
+        const images = resources.filter((path) => /\.(png|gif|jpe?g)$/i.test(path));
+        const candidates = [
+            ...images.filter(isFullScreenImageName),
+            ...images.filter((path) => !isFullScreenImageName(path) && !path.includes("/")),
+        ].slice(0, MAX_SIZE_PROBES);
+
+        const result: ImageInfo[] = [];
+        for (const path of candidates) {
+            const data = await read(path);
+            const size = data && readImageSize(data);
+            if (size) result.push({ path, ...size });
+        }
+        return result;
+    };
+
+    const hash = memoize(async (path: string) => {
+        const entry = path ? zip.file(path) : null;
+        if (path && !entry) return null;
+
+        const data = entry ? await entry.async("arraybuffer") : await file.arrayBuffer();
+        return toHex(await crypto.subtle.digest("SHA-256", data));
+    });
+
+    return {
+        file,
+        entries,
+        classes,
+        resources,
+        has,
+        read,
+        manifest: () => {
+            manifest ??= read(MANIFEST_PATH).then(async (content) => {
+                if (!content) {
+                    throw new Error("Invalid JAR: MANIFEST.MF not found");
+                }
+
+                const parsed = parseJARManifest(content, file.name);
+                if (parsed.screenSizeSource.origin !== "default") return parsed;
+
+                const guess = guessScreenSizeFromImages(await probeImages());
+                return guess ? withScreenSize(parsed, guess) : parsed;
+            });
+            return manifest;
+        },
+        icon,
+        hash: (path?: string) => hash(path ? normalizePath(path) : ""),
+        compatibility: () => {
+            compatibility ??= (async () => {
+                const definedClasses = new Set<string>();
+                const references = new Set<string>();
+                const unreadableClasses: string[] = [];
+
+                for (const path of classes) {
+                    definedClasses.add(path.replace(/\.class$/, "").replace(/\//g, "."));
+
+                    try {
+                        const data = await read(path);
+                        for (const reference of readClassReferences(data!)) {
+                            references.add(reference);
+                        }
+                    } catch {
+                        unreadableClasses.push(path);
+                    }
+                }
+
+                return buildCompatibilityReport(references, definedClasses, unreadableClasses);
+            })();
+            return compatibility;
+        },
+    };
+}
+
+/**
+ * Open a JAR file, reusing the archive if it was opened before
+ */
+export function openJarArchive(file: File): Promise<JarArchive> {
+    let archive = archives.get(file);
+
+    if (!archive) {
+        archive = createArchive(file);
+        archives.set(file, archive);
+        // Let a failed open be retried
+        archive.catch(() => archives.delete(file));
+    }
+
+    return archive;
+}
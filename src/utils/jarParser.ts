@@ -3,7 +3,13 @@
  * Parses JAR/JAD files to extract MIDlet information
  */
 
-import JSZip from "jszip";
+import {
+    parseManifest,
+    validateMIDletAttributes,
+    type ManifestIssue,
+    type ParsedManifest,
+} from "./manifestParser";
+import { inferScreenSize, type ScreenSize, type ScreenSizeSource } from "./screenSize";
 
 export interface MIDletInfo {
     name: string;
@@ -18,42 +24,50 @@ export interface JARManifest {
     midlets: MIDletInfo[];
     screenWidth: number;
     screenHeight: number;
+    screenSizeSource: ScreenSizeSource;
     className: string;
     rawManifest: Record<string, string>;
+    manifestSections: Record<string, Record<string, string>>;
+    manifestEncoding: string;
+    manifestIssues: ManifestIssue[];
+}
+
+interface ManifestSource {
+    source: ManifestIssue["source"];
+    parsed: ParsedManifest;
 }
 
 /**
- * Parse a MANIFEST.MF file content into key-value pairs
+ * Attributes every MIDlet suite must declare
  */
-function parseManifest(content: string): Record<string, string> {
-    const manifest: Record<string, string> = {};
-    let currentKey = "";
-    let currentValue = "";
-
-    const lines = content.split(/\r?\n/);
-
-    for (const line of lines) {
-        if (line.startsWith(" ")) {
-            // Continuation of previous value
-            currentValue += line.substring(1);
-        } else if (line.includes(":")) {
-            // Save previous entry
-            if (currentKey) {
-                manifest[currentKey] = currentValue.trim();
-            }
-
-            const colonIndex = line.indexOf(":");
-            currentKey = line.substring(0, colonIndex).trim();
-            currentValue = line.substring(colonIndex + 1);
-        }
-    }
+const SUITE_ATTRIBUTES = [
+    "MIDlet-Name",
+    "MIDlet-Version",
+    "MIDlet-Vendor",
+    "MIDlet-1",
+    "MicroEdition-Profile",
+    "MicroEdition-Configuration",
+];
 
-    // Save last entry
-    if (currentKey) {
-        manifest[currentKey] = currentValue.trim();
-    }
+/**
+ * Attributes every JAD must declare
+ */
+const JAD_ATTRIBUTES = [
+    "MIDlet-Name",
+    "MIDlet-Version",
+    "MIDlet-Vendor",
+    "MIDlet-Jar-URL",
+    "MIDlet-Jar-Size",
+];
 
-    return manifest;
+// Parsed sources of each manifest, kept for re-validation when merging
+const manifestSources = new WeakMap<JARManifest, ManifestSource[]>();
+
+/**
+ * Identify a MIDlet suite the way MIDP does: by vendor and name
+ */
+export function getSuiteId(vendor: string, name: string): string {
+    return `${vendor}/${name}`;
 }
 
 /**
@@ -81,101 +95,167 @@ function parseMIDletEntries(manifest: Record<string, string>): MIDletInfo[] {
 }
 
 /**
- * Parse screen size from manifest
+ * Parse the MANIFEST.MF content of a JAR file
  */
-function parseScreenSize(manifest: Record<string, string>): {
-    width: number;
-    height: number;
-} {
-    // Common screen sizes for J2ME devices
-    const defaultWidth = 240;
-    const defaultHeight = 320;
-
-    const widthStr =
-        manifest["MIDlet-Screen-Width"] ||
-        manifest["Nokia-MIDlet-Canvas-Size"]?.split("x")[0];
-    const heightStr =
-        manifest["MIDlet-Screen-Height"] ||
-        manifest["Nokia-MIDlet-Canvas-Size"]?.split("x")[1];
-
-    return {
-        width: widthStr ? parseInt(widthStr, 10) : defaultWidth,
-        height: heightStr ? parseInt(heightStr, 10) : defaultHeight,
-    };
+export function parseJARManifest(
+    content: Uint8Array,
+    fileName: string
+): JARManifest {
+    const parsed = parseManifest(content, {
+        source: "MANIFEST.MF",
+        enforceLineLength: true,
+    });
+
+    return buildManifest(
+        [{ source: "MANIFEST.MF", parsed }],
+        fileName.replace(/\.jar$/i, ""),
+        SUITE_ATTRIBUTES,
+        fileName
+    );
 }
 
 /**
- * Parse a JAR file and extract MIDlet information
+ * Parse a JAD file content
  */
-export async function parseJAR(file: File): Promise<JARManifest> {
-    const zip = new JSZip();
-    const contents = await zip.loadAsync(file);
+export function parseJAD(content: string | Uint8Array): JARManifest {
+    const parsed = parseManifest(content, { source: "JAD" });
+    return buildManifest([{ source: "JAD", parsed }], "Unknown", JAD_ATTRIBUTES);
+}
 
-    // Find and read MANIFEST.MF
-    const manifestFile = contents.file("META-INF/MANIFEST.MF");
+/**
+ * Build the structured manifest from one or more parsed sources.
+ * Later sources override attributes of earlier ones.
+ */
+function buildManifest(
+    sources: ManifestSource[],
+    fallbackName: string,
+    required: string[],
+    fileName?: string
+): JARManifest {
+    const rawManifest: Record<string, string> = {};
+    const attributeLines: Record<string, number> = {};
+    const attributeSources: Record<string, ManifestIssue["source"]> = {};
+    const issues: ManifestIssue[] = [];
 
-    if (!manifestFile) {
-        throw new Error("Invalid JAR: MANIFEST.MF not found");
+    for (const { source, parsed } of sources) {
+        Object.assign(rawManifest, parsed.attributes);
+        Object.assign(attributeLines, parsed.attributeLines);
+        for (const key of Object.keys(parsed.attributes)) {
+            attributeSources[key] = source;
+        }
+        issues.push(...parsed.issues);
     }
 
-    const manifestContent = await manifestFile.async("string");
-    const rawManifest = parseManifest(manifestContent);
+    const lastSource = sources[sources.length - 1].source;
+    issues.push(
+        ...validateMIDletAttributes(rawManifest, required, (key) =>
+            key && attributeSources[key]
+                ? { source: attributeSources[key], line: attributeLines[key] ?? null }
+                : { source: lastSource, line: null }
+        )
+    );
 
+    const manifestFile = sources.find((s) => s.source === "MANIFEST.MF");
     const midlets = parseMIDletEntries(rawManifest);
-    const { width, height } = parseScreenSize(rawManifest);
+    const screen = inferScreenSize(rawManifest, fileName);
 
-    return {
-        midletName: rawManifest["MIDlet-Name"] || file.name.replace(".jar", ""),
+    const manifest: JARManifest = {
+        midletName: rawManifest["MIDlet-Name"] || fallbackName,
         midletVersion: rawManifest["MIDlet-Version"] || "1.0",
         midletVendor: rawManifest["MIDlet-Vendor"] || "Unknown",
         midlets,
-        screenWidth: width,
-        screenHeight: height,
-        className: midlets[0]?.className || "Start",
+        screenWidth: screen.width,
+        screenHeight: screen.height,
+        screenSizeSource: screen.source,
+        className: midlets.find((m) => m.className)?.className || "",
         rawManifest,
+        manifestSections: manifestFile?.parsed.sections ?? {},
+        manifestEncoding: sources[0].parsed.encoding,
+        manifestIssues: issues,
     };
+
+    manifestSources.set(manifest, sources);
+    return manifest;
 }
 
 /**
- * Parse a JAD file content
+ * Attributes that must be identical in the JAD and the JAR manifest
  */
-export function parseJAD(content: string): JARManifest {
-    const rawManifest = parseManifest(content);
-    const midlets = parseMIDletEntries(rawManifest);
-    const { width, height } = parseScreenSize(rawManifest);
+const IDENTITY_ATTRIBUTES = ["MIDlet-Name", "MIDlet-Version", "MIDlet-Vendor"];
 
-    return {
-        midletName: rawManifest["MIDlet-Name"] || "Unknown",
-        midletVersion: rawManifest["MIDlet-Version"] || "1.0",
-        midletVendor: rawManifest["MIDlet-Vendor"] || "Unknown",
-        midlets,
-        screenWidth: width,
-        screenHeight: height,
-        className: midlets[0]?.className || "Start",
-        rawManifest,
-    };
+/**
+ * Merge a JAD descriptor over a JAR manifest the way a handset installs
+ * a suite: identity attributes must match, JAD values take precedence.
+ */
+export function mergeJAD(
+    jad: JARManifest,
+    jar: JARManifest,
+    jarSize: number
+): JARManifest {
+    for (const key of IDENTITY_ATTRIBUTES) {
+        const jadValue = jad.rawManifest[key];
+        const jarValue = jar.rawManifest[key];
+
+        if (!jadValue) {
+            throw new Error(`Invalid JAD: ${key} is missing`);
+        }
+        if (jarValue && jadValue !== jarValue) {
+            throw new Error(
+                `JAD/JAR mismatch: ${key} is "${jadValue}" in the JAD but "${jarValue}" in the JAR`
+            );
+        }
+    }
+
+    const declaredSize = jad.rawManifest["MIDlet-Jar-Size"];
+    if (declaredSize !== undefined) {
+        const expected = parseInt(declaredSize, 10);
+        if (Number.isNaN(expected)) {
+            throw new Error(`Invalid JAD: MIDlet-Jar-Size "${declaredSize}" is not a number`);
+        }
+        if (expected !== jarSize) {
+            throw new Error(
+                `JAR size mismatch: JAD declares ${expected} bytes but the JAR is ${jarSize} bytes`
+            );
+        }
+    }
+
+    const merged = buildManifest(
+        [...(manifestSources.get(jar) ?? []), ...(manifestSources.get(jad) ?? [])],
+        jar.midletName,
+        [...SUITE_ATTRIBUTES, "MIDlet-Jar-URL", "MIDlet-Jar-Size"]
+    );
+
+    // Keep a size guessed from the JAR itself unless the JAD declares one
+    if (
+        merged.screenSizeSource.origin === "default" &&
+        jar.screenSizeSource.origin !== "default"
+    ) {
+        return withScreenSize(merged, {
+            width: jar.screenWidth,
+            height: jar.screenHeight,
+            source: jar.screenSizeSource,
+        });
+    }
+
+    return merged;
 }
 
 /**
- * Extract icon from JAR file
+ * Replace the screen size of a manifest with a better guess
  */
-export async function extractIcon(
-    file: File,
-    iconPath: string
-): Promise<string | null> {
-    try {
-        const zip = new JSZip();
-        const contents = await zip.loadAsync(file);
-
-        const iconFile = contents.file(iconPath.replace(/^\//, ""));
-        if (!iconFile) return null;
-
-        const iconData = await iconFile.async("base64");
-        const ext = iconPath.split(".").pop()?.toLowerCase() || "png";
-        const mimeType = ext === "gif" ? "image/gif" : "image/png";
-
-        return `data:${mimeType};base64,${iconData}`;
-    } catch {
-        return null;
-    }
+export function withScreenSize(
+    manifest: JARManifest,
+    screen: ScreenSize
+): JARManifest {
+    const updated: JARManifest = {
+        ...manifest,
+        screenWidth: screen.width,
+        screenHeight: screen.height,
+        screenSizeSource: screen.source,
+    };
+
+    const sources = manifestSources.get(manifest);
+    if (sources) manifestSources.set(updated, sources);
+
+    return updated;
 }
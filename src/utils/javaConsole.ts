@@ -0,0 +1,107 @@
+/**
+ * Java Console Utility
+ * Captures what the runtime prints in its frame: System.out, System.err
+ * and uncaught exceptions, with their stack traces kept together
+ */
+
+export type LogLevel = "stdout" | "stderr" | "exception" | "status";
+
+export interface LogEntry {
+    id: number;
+    /** Epoch ms */
+    time: number;
+    level: LogLevel;
+    text: string;
+}
+
+export type LogHandler = (level: LogLevel, text: string) => void;
+
+// "Exception in thread "main" java.lang.NullPointerException" or
+// "java.lang.RuntimeException: message", as printed by printStackTrace
+const EXCEPTION_START = /^(Exception in thread "[^"]*" )?([\w$]+\.)+[\w$]*(Exception|Error|Throwable)\b/;
+const STACK_LINE = /^(\s+at |\s+\.\.\. \d+ more|Caused by: |\s*Suppressed: )/;
+
+// Trace lines arrive one call at a time; this long without one ends it
+const TRACE_IDLE_MS = 50;
+
+function stringify(value: unknown): string {
+    if (value instanceof Error) return value.stack ?? `${value.name}: ${value.message}`;
+    if (typeof value === "string") return value;
+    try {
+        return JSON.stringify(value);
+    } catch {
+        return String(value);
+    }
+}
+
+/**
+ * Route the frame's console to a handler, before the runtime loads. The
+ * frame's own console still receives everything.
+ */
+export function captureConsole(frameWindow: Window, onLog: LogHandler): void {
+    const frameConsole = (frameWindow as Window & typeof globalThis).console;
+    let trace: string[] | null = null;
+    let traceTimer: number | undefined;
+
+    const flushTrace = () => {
+        window.clearTimeout(traceTimer);
+        if (trace) onLog("exception", trace.join("\n"));
+        trace = null;
+    };
+
+    const writeError = (line: string) => {
+        if (EXCEPTION_START.test(line)) {
+            flushTrace();
+            trace = [line];
+        } else if (trace && STACK_LINE.test(line)) {
+            trace.push(line);
+        } else {
+            flushTrace();
+            onLog("stderr", line);
+            return;
+        }
+        window.clearTimeout(traceTimer);
+        traceTimer = window.setTimeout(flushTrace, TRACE_IDLE_MS);
+    };
+
+    const patch = (method: "log" | "info" | "debug" | "warn" | "error", level: "stdout" | "stderr") => {
+        const original = frameConsole[method].bind(frameConsole);
+        frameConsole[method] = (...args: unknown[]) => {
+            original(...args);
+            const text = args.map(stringify).join(" ").replace(/\n$/, "");
+            for (const line of text.split("\n")) {
+                if (level === "stderr") {
+                    writeError(line);
+                } else {
+                    flushTrace();
+                    onLog("stdout", line);
+                }
+            }
+        };
+    };
+
+    patch("log", "stdout");
+    patch("info", "stdout");
+    patch("debug", "stdout");
+    patch("warn", "stderr");
+    patch("error", "stderr");
+
+    // Failures of the runtime itself, outside of Java
+    frameWindow.addEventListener("error", (e) => {
+        flushTrace();
+        onLog("exception", e.error ? stringify(e.error) : e.message);
+    });
+    frameWindow.addEventListener("unhandledrejection", (e) => {
+        flushTrace();
+        onLog("exception", `Unhandled rejection: ${stringify(e.reason)}`);
+    });
+}
+
+/**
+ * Plain-text transcript, one entry per line
+ */
+export function formatLog(entries: LogEntry[]): string {
+    return entries
+        .map((entry) => `${new Date(entry.time).toISOString()} [${entry.level}] ${entry.text}`)
+        .join("\n");
+}
@@ -0,0 +1,237 @@
+/**
+ * Key Mapping Utility
+ * Bindings from physical keyboard keys to J2ME keys, with presets
+ */
+
+import { J2ME_KEYS, type J2MEKeyName } from "./j2meKeys";
+
+/**
+ * Physical keys (KeyboardEvent.code) bound to each J2ME key. Codes name
+ * key positions, so a mapping works the same on QWERTY, AZERTY or QWERTZ.
+ */
+export type KeyMapping = Partial<Record<J2MEKeyName, string[]>>;
+
+export interface KeyMappingPreset {
+    id: string;
+    name: string;
+    mapping: KeyMapping;
+}
+
+/** Layout-aware key labels, as returned by navigator.keyboard.getLayoutMap() */
+export type KeyboardLayoutMap = ReadonlyMap<string, string>;
+
+const DIGIT_KEYS: J2MEKeyName[] = [
+    "KEY_0", "KEY_1", "KEY_2", "KEY_3", "KEY_4",
+    "KEY_5", "KEY_6", "KEY_7", "KEY_8", "KEY_9",
+];
+
+// Digit row and numpad, each digit bound to itself
+function digitBindings(): KeyMapping {
+    return Object.fromEntries(
+        DIGIT_KEYS.map((key, digit) => [key, [`Digit${digit}`, `Numpad${digit}`]])
+    );
+}
+
+export const KEY_MAPPING_PRESETS: KeyMappingPreset[] = [
+    {
+        id: "default",
+        name: "Default",
+        mapping: {
+            UP: ["ArrowUp"],
+            DOWN: ["ArrowDown"],
+            LEFT: ["ArrowLeft"],
+            RIGHT: ["ArrowRight"],
+            FIRE: ["Enter", "Space"],
+            SOFT_LEFT: ["KeyQ"],
+            SOFT_RIGHT: ["KeyE"],
+            ...digitBindings(),
+            KEY_STAR: ["NumpadMultiply"],
+            KEY_HASH: ["NumpadDivide"],
+        },
+    },
+    {
+        id: "wasd",
+        name: "WASD",
+        mapping: {
+            UP: ["KeyW", "ArrowUp"],
+            DOWN: ["KeyS", "ArrowDown"],
+            LEFT: ["KeyA", "ArrowLeft"],
+            RIGHT: ["KeyD", "ArrowRight"],
+            FIRE: ["Space", "Enter"],
+            SOFT_LEFT: ["KeyQ"],
+            SOFT_RIGHT: ["KeyE"],
+            ...digitBindings(),
+            KEY_STAR: ["KeyZ"],
+            KEY_HASH: ["KeyX"],
+        },
+    },
+    {
+        // The numpad's 7-8-9 row sits on top, a phone's 1-2-3 row does
+        id: "numpad-phone",
+        name: "Numpad as phone",
+        mapping: {
+            UP: ["ArrowUp"],
+            DOWN: ["ArrowDown"],
+            LEFT: ["ArrowLeft"],
+            RIGHT: ["ArrowRight"],
+            FIRE: ["NumpadEnter", "Enter"],
+            SOFT_LEFT: ["NumpadDivide"],
+            SOFT_RIGHT: ["NumpadMultiply"],
+            KEY_1: ["Numpad7"],
+            KEY_2: ["Numpad8"],
+            KEY_3: ["Numpad9"],
+            KEY_4: ["Numpad4"],
+            KEY_5: ["Numpad5"],
+            KEY_6: ["Numpad6"],
+            KEY_7: ["Numpad1"],
+            KEY_8: ["Numpad2"],
+            KEY_9: ["Numpad3"],
+            KEY_0: ["Numpad0"],
+            KEY_STAR: ["NumpadSubtract"],
+            KEY_HASH: ["NumpadAdd"],
+        },
+    },
+    {
+        id: "left-handed",
+        name: "Left-handed",
+        mapping: {
+            UP: ["KeyI", "ArrowUp"],
+            DOWN: ["KeyK", "ArrowDown"],
+            LEFT: ["KeyJ", "ArrowLeft"],
+            RIGHT: ["KeyL", "ArrowRight"],
+            FIRE: ["Space", "KeyF"],
+            SOFT_LEFT: ["KeyA"],
+            SOFT_RIGHT: ["KeyD"],
+            ...digitBindings(),
+            KEY_STAR: ["KeyZ"],
+            KEY_HASH: ["KeyX"],
+        },
+    },
+];
+
+export const DEFAULT_KEY_MAPPING = KEY_MAPPING_PRESETS[0].mapping;
+
+/**
+ * Find the J2ME key code bound to a physical key
+ */
+export function resolveKeyCode(mapping: KeyMapping, code: string): number | undefined {
+    for (const [key, codes] of Object.entries(mapping) as [J2MEKeyName, string[]][]) {
+        if (codes.includes(code)) return J2ME_KEYS[key];
+    }
+    return undefined;
+}
+
+/**
+ * Bind a physical key to a J2ME key, removing it from any other key
+ */
+export function bindKey(mapping: KeyMapping, key: J2MEKeyName, code: string): KeyMapping {
+    const next = unbindKey(mapping, code);
+    next[key] = [...(next[key] ?? []), code];
+    return next;
+}
+
+/**
+ * Remove a physical key from whichever J2ME key it is bound to
+ */
+export function unbindKey(mapping: KeyMapping, code: string): KeyMapping {
+    return Object.fromEntries(
+        Object.entries(mapping).map(([key, codes]) => [key, codes.filter((c) => c !== code)])
+    );
+}
+
+/**
+ * Find the preset a mapping is identical to, if any
+ */
+export function findPreset(mapping: KeyMapping): KeyMappingPreset | undefined {
+    const normalize = (m: KeyMapping) =>
+        JSON.stringify(
+            (Object.keys(J2ME_KEYS) as J2MEKeyName[]).map((key) => [...(m[key] ?? [])].sort())
+        );
+    const target = normalize(mapping);
+    return KEY_MAPPING_PRESETS.find((preset) => normalize(preset.mapping) === target);
+}
+
+const SPECIAL_KEY_LABELS: Record<string, string> = {
+    ArrowUp: "↑",
+    ArrowDown: "↓",
+    ArrowLeft: "←",
+    ArrowRight: "→",
+    Space: "Space",
+    Enter: "Enter",
+    NumpadEnter: "Num Enter",
+    NumpadMultiply: "Num *",
+    NumpadDivide: "Num /",
+    NumpadAdd: "Num +",
+    NumpadSubtract: "Num -",
+    NumpadDecimal: "Num .",
+};
+
+/**
+ * Human-readable label of a physical key, using the user's keyboard
+ * layout when the browser exposes it
+ */
+export function formatKeyCode(code: string, layout?: KeyboardLayoutMap | null): string {
+    if (SPECIAL_KEY_LABELS[code]) return SPECIAL_KEY_LABELS[code];
+
+    const numpad = code.match(/^Numpad(\d)$/);
+    if (numpad) return `Num ${numpad[1]}`;
+
+    const printed = layout?.get(code);
+    if (printed) return printed.toUpperCase();
+
+    const character = code.match(/^(?:Key|Digit)(.)$/);
+    return character ? character[1] : code;
+}
+
+const KEY_LABELS: Record<J2MEKeyName, string> = {
+    UP: "Up",
+    DOWN: "Down",
+    LEFT: "Left",
+    RIGHT: "Right",
+    FIRE: "Fire",
+    SOFT_LEFT: "Left soft key",
+    SOFT_RIGHT: "Right soft key",
+    KEY_0: "0",
+    KEY_1: "1",
+    KEY_2: "2",
+    KEY_3: "3",
+    KEY_4: "4",
+    KEY_5: "5",
+    KEY_6: "6",
+    KEY_7: "7",
+    KEY_8: "8",
+    KEY_9: "9",
+    KEY_STAR: "*",
+    KEY_HASH: "#",
+};
+
+export function formatJ2MEKey(key: J2MEKeyName): string {
+    return KEY_LABELS[key];
+}
+
+/**
+ * Short summary of a mapping, e.g. "↑↓←→ Move · Enter/Space Fire · Q/E Soft keys"
+ */
+export function describeKeyMapping(mapping: KeyMapping, layout?: KeyboardLayoutMap | null): string {
+    const label = (key: J2MEKeyName) =>
+        (mapping[key] ?? []).map((code) => formatKeyCode(code, layout)).join("/");
+
+    const parts: string[] = [];
+
+    const directions = (["UP", "DOWN", "LEFT", "RIGHT"] as J2MEKeyName[])
+        .map((key) => (mapping[key] ?? [])[0])
+        .filter((code): code is string => code !== undefined);
+    if (directions.length > 0) {
+        parts.push(`${directions.map((code) => formatKeyCode(code, layout)).join("")} Move`);
+    }
+    if (label("FIRE")) parts.push(`${label("FIRE")} Fire`);
+    if (label("SOFT_LEFT") || label("SOFT_RIGHT")) {
+        parts.push(`${label("SOFT_LEFT") || "–"}, ${label("SOFT_RIGHT") || "–"} Soft keys`);
+    }
+
+    const digitCodes = DIGIT_KEYS.flatMap((key) => mapping[key] ?? []);
+    if (digitCodes.some((code) => code.startsWith("Digit"))) parts.push("0-9 Digits");
+    if (digitCodes.some((code) => code.startsWith("Numpad"))) parts.push("Numpad Digits");
+
+    return parts.join(" · ");
+}
@@ -0,0 +1,288 @@
+/**
+ * Manifest Parser Utility
+ * Parses MANIFEST.MF and JAD content following the JAR manifest spec,
+ * reporting problems instead of silently ignoring them
+ */
+
+export type IssueSeverity = "warning" | "error";
+
+export interface ManifestIssue {
+    severity: IssueSeverity;
+    source: "MANIFEST.MF" | "JAD";
+    line: number | null;
+    message: string;
+}
+
+export interface ParsedManifest {
+    /** Attributes of the main section */
+    attributes: Record<string, string>;
+    /** Per-entry sections, keyed by their Name attribute */
+    sections: Record<string, Record<string, string>>;
+    /** Line number on which each main attribute starts */
+    attributeLines: Record<string, number>;
+    encoding: string;
+    issues: ManifestIssue[];
+}
+
+export interface ParseManifestOptions {
+    source: ManifestIssue["source"];
+    /** Enforce the 72-byte line limit (JAR manifests only) */
+    enforceLineLength?: boolean;
+}
+
+const MAX_LINE_BYTES = 72;
+const HEADER_NAME = /^[A-Za-z0-9][A-Za-z0-9_-]*$/;
+
+/**
+ * Score how plausible a decoded string is for a given legacy charset.
+ * Only non-ASCII characters are considered.
+ */
+function scoreDecoding(text: string, encoding: string): number {
+    let score = 0;
+    let count = 0;
+
+    for (const char of text) {
+        const code = char.codePointAt(0)!;
+        if (code < 0x80) continue;
+        count++;
+
+        if (encoding === "shift_jis") {
+            if (
+                (code >= 0x3040 && code <= 0x30ff) ||
+                (code >= 0x4e00 && code <= 0x9fff) ||
+                (code >= 0xff01 && code <= 0xff5e)
+            ) {
+                score++;
+            } else if (code >= 0xe000 && code <= 0xf8ff) {
+                score -= 2;
+            } else {
+                score--;
+            }
+        } else if (encoding === "windows-1251") {
+            score += code >= 0x0410 && code <= 0x044f ? 1 : -1;
+        }
+    }
+
+    return count === 0 ? 0 : score / count;
+}
+
+function tryDecode(bytes: Uint8Array, encoding: string): string | null {
+    try {
+        return new TextDecoder(encoding, { fatal: true }).decode(bytes);
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Decode manifest bytes, falling back on legacy charset detection
+ * when the content is not valid UTF-8
+ */
+export function decodeManifest(bytes: Uint8Array): {
+    text: string;
+    encoding: string;
+} {
+    const utf8 = tryDecode(bytes, "utf-8");
+    if (utf8 !== null) {
+        return { text: utf8.replace(/^\uFEFF/, ""), encoding: "utf-8" };
+    }
+
+    let best = {
+        text: new TextDecoder("windows-1252").decode(bytes),
+        encoding: "windows-1252",
+        score: 0,
+    };
+
+    for (const encoding of ["shift_jis", "windows-1251"]) {
+        const text = tryDecode(bytes, encoding);
+        if (text === null) continue;
+
+        const score = scoreDecoding(text, encoding);
+        if (score > best.score) {
+            best = { text, encoding, score };
+        }
+    }
+
+    return { text: best.text, encoding: best.encoding };
+}
+
+/**
+ * Parse manifest or JAD content into its main and per-entry sections
+ */
+export function parseManifest(
+    content: string | Uint8Array,
+    options: ParseManifestOptions
+): ParsedManifest {
+    const { source, enforceLineLength = false } = options;
+    const issues: ManifestIssue[] = [];
+    const report = (severity: IssueSeverity, line: number | null, message: string) => {
+        issues.push({ severity, source, line, message });
+    };
+
+    let text: string;
+    let encoding = "utf-8";
+
+    if (typeof content === "string") {
+        text = content;
+    } else {
+        ({ text, encoding } = decodeManifest(content));
+        if (encoding !== "utf-8") {
+            report("warning", null, `Content is not valid UTF-8, decoded as ${encoding}`);
+        }
+    }
+
+    const encoder = new TextEncoder();
+    // Prototype-free, so names like __proto__ are plain keys
+    const attributes: Record<string, string> = Object.create(null);
+    const sections: Record<string, Record<string, string>> = Object.create(null);
+    const attributeLines: Record<string, number> = Object.create(null);
+
+    let section = attributes;
+    let inMainSection = true;
+    let sectionStarting = false;
+    // The pending attribute is the Name opening a per-entry section
+    let openingSection = false;
+    let currentKey = "";
+    let currentValue = "";
+
+    const commit = () => {
+        if (openingSection) {
+            const name = currentValue.trim();
+            if (!Object.hasOwn(sections, name)) sections[name] = Object.create(null);
+            section = sections[name];
+            openingSection = false;
+        } else if (currentKey) {
+            section[currentKey] = currentValue.trim();
+        }
+        currentKey = "";
+        currentValue = "";
+    };
+
+    const lines = text.split(/\r\n|\r|\n/);
+
+    lines.forEach((line, index) => {
+        const lineNumber = index + 1;
+
+        if (enforceLineLength && encoder.encode(line).length > MAX_LINE_BYTES) {
+            report("warning", lineNumber, `Line exceeds ${MAX_LINE_BYTES} bytes`);
+        }
+
+        if (line.trim() === "") {
+            // A blank line ends the current section
+            commit();
+            sectionStarting = true;
+            return;
+        }
+
+        if (line.startsWith(" ")) {
+            if (!currentKey) {
+                report("error", lineNumber, "Continuation line without a preceding attribute");
+                return;
+            }
+            currentValue += line.substring(1);
+            return;
+        }
+
+        commit();
+
+        const colonIndex = line.indexOf(":");
+        if (colonIndex === -1) {
+            report("error", lineNumber, `Line is missing a colon: "${line.trim()}"`);
+            return;
+        }
+
+        const key = line.substring(0, colonIndex).trim();
+        if (!HEADER_NAME.test(key)) {
+            report("error", lineNumber, `Invalid attribute name "${key}"`);
+            return;
+        }
+        if (line[colonIndex + 1] !== undefined && line[colonIndex + 1] !== " ") {
+            report("warning", lineNumber, `Attribute "${key}" is missing a space after the colon`);
+        }
+
+        if (sectionStarting) {
+            sectionStarting = false;
+
+            if (key === "Name") {
+                // Start of a per-entry section, opened once the name,
+                // which may continue on the next lines, is complete
+                inMainSection = false;
+                openingSection = true;
+                currentKey = key;
+                currentValue = line.substring(colonIndex + 1);
+                return;
+            }
+            if (!inMainSection) {
+                report("error", lineNumber, `Section does not start with a Name attribute`);
+            }
+        }
+
+        if (Object.hasOwn(section, key)) {
+            report("warning", lineNumber, `Duplicate attribute "${key}"`);
+        }
+        if (inMainSection) {
+            attributeLines[key] = lineNumber;
+        }
+
+        currentKey = key;
+        currentValue = line.substring(colonIndex + 1);
+    });
+
+    commit();
+
+    return { attributes, sections, attributeLines, encoding, issues };
+}
+
+const CLASS_NAME = /^[A-Za-z_$][\w$]*(\.[A-Za-z_$][\w$]*)*$/;
+const VERSION = /^\d+(\.\d+){1,2}$/;
+
+/**
+ * Resolve where an attribute was declared, for issue reporting
+ */
+export type AttributeLocator = (
+    key: string | null
+) => Pick<ManifestIssue, "source" | "line">;
+
+/**
+ * Validate the MIDP attributes of a manifest or JAD
+ */
+export function validateMIDletAttributes(
+    attributes: Record<string, string>,
+    required: string[],
+    locate: AttributeLocator
+): ManifestIssue[] {
+    const issues: ManifestIssue[] = [];
+    const report = (severity: IssueSeverity, key: string | null, message: string) => {
+        issues.push({ severity, ...locate(key), message });
+    };
+
+    for (const key of required) {
+        if (!attributes[key]) {
+            report("error", null, `Required attribute ${key} is missing`);
+        }
+    }
+
+    const version = attributes["MIDlet-Version"];
+    if (version && !VERSION.test(version)) {
+        report("warning", "MIDlet-Version", `MIDlet-Version "${version}" is not in major.minor[.micro] form`);
+    }
+
+    for (let i = 1; attributes[`MIDlet-${i}`] !== undefined; i++) {
+        const key = `MIDlet-${i}`;
+        const parts = attributes[key].split(",").map((s) => s.trim());
+
+        if (parts.length !== 3) {
+            report("error", key, `${key} must have exactly three comma-separated fields (name, icon, class)`);
+        }
+        if (!parts[0]) {
+            report("warning", key, `${key} has no name`);
+        }
+        if (!parts[2]) {
+            report("error", key, `${key} has no class name`);
+        } else if (!CLASS_NAME.test(parts[2])) {
+            report("error", key, `${key} class name "${parts[2]}" is not a valid Java class name`);
+        }
+    }
+
+    return issues;
+}
@@ -0,0 +1,121 @@
+/**
+ * OTA Installer Utility
+ * Installs a MIDlet suite from a JAR, a JAD or a JAD + JAR pair
+ */
+
+import { mergeJAD, parseJAD, type JARManifest } from "./jarParser";
+import { openJarArchive, type JarArchive } from "./jarArchive";
+
+export interface InstalledSuite {
+    archive: JarArchive;
+    manifest: JARManifest;
+}
+
+function hasExtension(file: File, ext: string): boolean {
+    return file.name.toLowerCase().endsWith(ext);
+}
+
+/**
+ * Get the file name a MIDlet-Jar-URL points to
+ */
+export function jarFileName(jarUrl: string): string {
+    const path = jarUrl.split(/[?#]/)[0];
+    const name = path.substring(path.lastIndexOf("/") + 1);
+
+    try {
+        return decodeURIComponent(name);
+    } catch {
+        return name;
+    }
+}
+
+/**
+ * Download the JAR referenced by an absolute MIDlet-Jar-URL
+ */
+async function fetchJAR(jarUrl: string): Promise<File> {
+    let response: Response;
+
+    try {
+        response = await fetch(jarUrl);
+    } catch {
+        throw new Error(`Could not download JAR from ${jarUrl}`);
+    }
+
+    if (!response.ok) {
+        throw new Error(
+            `Could not download JAR from ${jarUrl} (HTTP ${response.status})`
+        );
+    }
+
+    const blob = await response.blob();
+    return new File([blob], jarFileName(jarUrl) || "suite.jar", {
+        type: "application/java-archive",
+    });
+}
+
+/**
+ * Find the JAR a JAD refers to among the dropped files, or download it
+ */
+async function resolveJAR(jad: JARManifest, jars: File[]): Promise<File> {
+    const jarUrl = jad.rawManifest["MIDlet-Jar-URL"];
+
+    if (!jarUrl) {
+        throw new Error("Invalid JAD: MIDlet-Jar-URL is missing");
+    }
+
+    const wanted = jarFileName(jarUrl).toLowerCase();
+    const match = jars.find((jar) => jar.name.toLowerCase() === wanted);
+    if (match) return match;
+    if (jars.length === 1) return jars[0];
+
+    if (/^https?:\/\//i.test(jarUrl)) {
+        return fetchJAR(jarUrl);
+    }
+
+    throw new Error(
+        `JAR not found: drop "${jarFileName(jarUrl)}" together with the JAD`
+    );
+}
+
+/**
+ * Refuse suites that declare no MIDlet class to start
+ */
+function assertLaunchable(manifest: JARManifest): JARManifest {
+    if (!manifest.className) {
+        const reason = manifest.manifestIssues.find((issue) => issue.severity === "error");
+        throw new Error(
+            `No launchable MIDlet${reason ? `: ${reason.message}` : ""}`
+        );
+    }
+    return manifest;
+}
+
+/**
+ * Install a MIDlet suite from the selected files
+ */
+export async function installSuite(files: File[]): Promise<InstalledSuite> {
+    const jads = files.filter((file) => hasExtension(file, ".jad"));
+    const jars = files.filter((file) => hasExtension(file, ".jar"));
+
+    if (jads.length === 0 && jars.length === 0) {
+        throw new Error("Please select a valid JAR or JAD file");
+    }
+    if (jads.length > 1) {
+        throw new Error("Please select a single JAD file");
+    }
+
+    if (jads.length === 0) {
+        if (jars.length > 1) {
+            throw new Error("Please select a single JAR file");
+        }
+        const archive = await openJarArchive(jars[0]);
+        return { archive, manifest: assertLaunchable(await archive.manifest()) };
+    }
+
+    const jad = parseJAD(new Uint8Array(await jads[0].arrayBuffer()));
+    const file = await resolveJAR(jad, jars);
+    const archive = await openJarArchive(file);
+    const jar = await archive.manifest();
+
+    return { archive, manifest: assertLaunchable(mergeJAD(jad, jar, file.size)) };
+}
@@ -0,0 +1,108 @@
+/**
+ * Performance Monitor Utility
+ * Repaint rate and frame times of the running MIDlet, measured on its
+ * display canvas, for the performance HUD
+ */
+
+export interface FrameStats {
+    /** Repaints in the last second */
+    fps: number;
+    /** Time between the latest repaints, oldest first, in ms */
+    frameTimes: number[];
+}
+
+// Frame times kept for the graph
+const FRAME_HISTORY = 120;
+
+// Context methods that change what a canvas shows, by context class
+const DRAW_METHODS: Record<string, string[]> = {
+    CanvasRenderingContext2D: [
+        "clearRect",
+        "fillRect",
+        "strokeRect",
+        "fillText",
+        "strokeText",
+        "fill",
+        "stroke",
+        "drawImage",
+        "putImageData",
+    ],
+    WebGLRenderingContext: ["drawArrays", "drawElements"],
+    WebGL2RenderingContext: ["drawArrays", "drawElements"],
+};
+
+export interface PerformanceSession {
+    /** MIDlet time since the game first painted, in ms, or null before */
+    elapsed: () => number | null;
+    stats: () => FrameStats;
+    /** Stop watching the display */
+    close: () => void;
+}
+
+/**
+ * Watch the display canvas of a runtime frame. Draws onto it between two
+ * animation frames count as one repaint. now is the time the MIDlet sees;
+ * onFirstFrame is called once, when the game first paints.
+ */
+export function openPerformanceSession(
+    win: Window,
+    getCanvas: () => HTMLCanvasElement | null,
+    now: () => number,
+    onFirstFrame: () => void
+): PerformanceSession {
+    // MIDlet time of the first draw onto the display
+    let firstDrawAt: number | null = null;
+    // Timestamps of the latest repaints, oldest first
+    const frames: number[] = [];
+    const restores: (() => void)[] = [];
+    let canvas: HTMLCanvasElement | null = null;
+    let drawn = false;
+
+    for (const [className, methods] of Object.entries(DRAW_METHODS)) {
+        const context: unknown = Reflect.get(win, className);
+        if (typeof context !== "function") continue;
+
+        const prototype: object = context.prototype;
+        for (const method of methods) {
+            const draw: unknown = Reflect.get(prototype, method);
+            if (typeof draw !== "function") continue;
+
+            Reflect.set(prototype, method, function (this: { canvas: unknown }, ...args: unknown[]) {
+                if (canvas !== null && this.canvas === canvas) {
+                    drawn = true;
+                    firstDrawAt ??= now();
+                }
+                return Reflect.apply(draw, this, args);
+            });
+            restores.push(() => Reflect.set(prototype, method, draw));
+        }
+    }
+
+    let frame = 0;
+    const tick = () => {
+        canvas = getCanvas();
+        if (drawn) {
+            drawn = false;
+            if (frames.length === 0) onFirstFrame();
+            frames.push(performance.now());
+            if (frames.length > FRAME_HISTORY + 1) frames.shift();
+        }
+        frame = requestAnimationFrame(tick);
+    };
+    tick();
+
+    return {
+        elapsed: () => (firstDrawAt === null ? null : now() - firstDrawAt),
+        stats: () => {
+            const time = performance.now();
+            return {
+                fps: frames.filter((at) => time - at <= 1000).length,
+                frameTimes: frames.slice(1).map((at, i) => at - frames[i]),
+            };
+        },
+        close: () => {
+            cancelAnimationFrame(frame);
+            for (const restore of restores) restore();
+        },
+    };
+}
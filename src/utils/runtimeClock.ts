@@ -0,0 +1,124 @@
+/**
+ * Runtime Clock Utility
+ * Controls time inside a runtime frame. Java threads sleep and yield on
+ * the frame's timers and read the time from Date.now and performance.now,
+ * so patching those pauses the MIDlet and changes its speed.
+ */
+
+export type EmulationSpeed = "0.5" | "1" | "2" | "unlimited";
+
+export const EMULATION_SPEEDS: Record<EmulationSpeed, string> = {
+    "0.5": "0.5×",
+    "1": "1×",
+    "2": "2×",
+    unlimited: "Unlimited",
+};
+
+export interface RuntimeClock {
+    /** Stop time and defer every timer and animation frame callback until release */
+    hold: () => void;
+    release: () => void;
+    /**
+     * At a finite speed, time runs that many times faster and timers wait
+     * that much less; when unlimited, timers fire at once and time jumps to
+     * when they were due. Running intervals keep the speed they started at.
+     */
+    setSpeed: (speed: EmulationSpeed) => void;
+    /** Time in the frame, in ms, as its performance.now reports it */
+    now: () => number;
+}
+
+/**
+ * Patch the frame's timers and clocks; call before the runtime loads
+ */
+export function installRuntimeClock(win: Window): RuntimeClock {
+    const { setTimeout, setInterval, requestAnimationFrame } = win;
+    const realNow = win.performance.now.bind(win.performance);
+    const FrameDate: DateConstructor = Reflect.get(win, "Date");
+    const epoch = FrameDate.now() - realNow();
+
+    let held = false;
+    let deferred: (() => void)[] = [];
+    let rate = 1;
+    let unlimited = false;
+    // Frame time was base at real time realBase
+    let base = realNow();
+    let realBase = base;
+
+    const now = () => (held ? base : base + (realNow() - realBase) * rate);
+
+    const rebase = () => {
+        base = now();
+        realBase = realNow();
+    };
+
+    // When unlimited, a timer that fires early moves time to when it was due
+    const advanceTo = (due: number) => {
+        if (unlimited && due > now()) {
+            base = due;
+            realBase = realNow();
+        }
+    };
+
+    const realWait = (timeout: number) => (unlimited ? 0 : timeout / rate);
+
+    // Callbacks that fire while held run on release, in order
+    const defer = (callback: Exclude<TimerHandler, string>, due?: number) => (...args: unknown[]) => {
+        const run = () => {
+            if (due !== undefined) advanceTo(due);
+            Reflect.apply(callback, win, args);
+        };
+        if (held) deferred.push(run);
+        else run();
+    };
+
+    win.setTimeout = (handler: TimerHandler, timeout?: number, ...args: unknown[]) => {
+        if (typeof handler !== "function") return setTimeout.call(win, handler, timeout, ...args);
+
+        const delay = Math.max(Number(timeout) || 0, 0);
+        return setTimeout.call(win, defer(handler, now() + delay), realWait(delay), ...args);
+    };
+
+    // Intervals skip their ticks while held rather than pile them up
+    win.setInterval = (handler: TimerHandler, timeout?: number, ...args: unknown[]) => {
+        if (typeof handler !== "function") return setInterval.call(win, handler, timeout, ...args);
+
+        const period = Math.max(Number(timeout) || 0, 0);
+        let due = now() + period;
+        return setInterval.call(win, (...callArgs: unknown[]) => {
+            if (held) return;
+            advanceTo(due);
+            due = now() + period;
+            Reflect.apply(handler, win, callArgs);
+        }, realWait(period), ...args);
+    };
+
+    // Animation frames come at the display's rate, stamped with frame time
+    win.requestAnimationFrame = (callback) =>
+        requestAnimationFrame.call(win, defer(() => callback(now())));
+
+    win.performance.now = now;
+    FrameDate.now = () => Math.floor(epoch + now());
+
+    return {
+        hold: () => {
+            if (held) return;
+            base = now();
+            held = true;
+        },
+        release: () => {
+            if (!held) return;
+            held = false;
+            realBase = realNow();
+            const pending = deferred;
+            deferred = [];
+            for (const callback of pending) setTimeout.call(win, callback, 0);
+        },
+        setSpeed: (speed) => {
+            rebase();
+            unlimited = speed === "unlimited";
+            rate = unlimited ? 1 : Number(speed);
+        },
+        now,
+    };
+}
@@ -0,0 +1,66 @@
+/**
+ * Runtime Loader Utility
+ * Where the CheerpJ runtime is loaded from, and why loading it failed
+ */
+
+/**
+ * The public CheerpJ 3 loader, unless the build points elsewhere with
+ * VITE_CHEERPJ_LOADER_URL, e.g. at a self-hosted copy of the runtime
+ */
+export const DEFAULT_LOADER_URL: string =
+    import.meta.env.VITE_CHEERPJ_LOADER_URL || "https://cjrtnc.leaningtech.com/3.0/cj3loader.js";
+
+const SETTINGS_HINT = "set a self-hosted runtime under Settings › Runtime";
+
+/**
+ * Absolute URL of the loader: the configured one, else the default.
+ * Relative URLs are resolved against the page.
+ */
+export function resolveLoaderUrl(configured?: string): string {
+    const url = configured?.trim() || DEFAULT_LOADER_URL;
+    try {
+        return new URL(url, document.baseURI).href;
+    } catch {
+        return url;
+    }
+}
+
+/**
+ * Directory the runtime loads the rest of its files from
+ */
+export function runtimeBase(loaderUrl: string): string {
+    return loaderUrl.substring(0, loaderUrl.lastIndexOf("/") + 1);
+}
+
+/**
+ * Work out why the loader script did not load, as an actionable message
+ */
+export async function describeLoaderFailure(loaderUrl: string): Promise<string> {
+    let url: URL;
+    try {
+        url = new URL(loaderUrl);
+    } catch {
+        return `"${loaderUrl}" is not a valid CheerpJ loader URL. Fix it under Settings › Runtime.`;
+    }
+
+    if (!navigator.onLine) {
+        return "You are offline and the CheerpJ runtime has not been saved for offline use yet. "
+            + `Start a game once while online, or ${SETTINGS_HINT}.`;
+    }
+
+    const sameOrigin = url.origin === location.origin;
+    try {
+        // Cross-origin responses are opaque, but a failed request still tells
+        const response = await fetch(url, { mode: sameOrigin ? "same-origin" : "no-cors", cache: "no-store" });
+        if (sameOrigin && !response.ok) {
+            return `The CheerpJ loader at ${url.href} returned HTTP ${response.status}. `
+                + "Check that the runtime files are deployed there, or fix the URL under Settings › Runtime.";
+        }
+    } catch {
+        return `Could not reach the CheerpJ runtime at ${url.host}. Check your connection; `
+            + `a firewall, ad blocker or content security policy may also block it. You can ${SETTINGS_HINT}.`;
+    }
+
+    return `The CheerpJ loader at ${url.href} could not run. `
+        + "Make sure the URL points to cj3loader.js of CheerpJ 3 and that the server allows loading it as a script.";
+}
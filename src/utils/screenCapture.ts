@@ -0,0 +1,168 @@
+/**
+ * Screen Capture Utility
+ * Screenshots, WebM recordings and GIF clips of the game screen at its
+ * native resolution, free of the display's scaling and filtering
+ */
+
+import { encodeGif, type GifFrame } from "./gifEncoder";
+import { type Size } from "./screenLayout";
+
+export interface Recording {
+    /** Finish and return the recorded file */
+    stop: () => Promise<Blob>;
+    /** Finish without producing a file */
+    cancel: () => void;
+}
+
+const VIDEO_FPS = 30;
+const GIF_FPS = 10;
+export const MAX_GIF_SECONDS = 15;
+// Videos are upscaled to at least this height, as codecs blur tiny frames
+const MIN_VIDEO_HEIGHT = 480;
+
+/**
+ * Copy the screen into a canvas of its native size, or a whole multiple of it
+ */
+function createCaptureCanvas(screen: Size, scale = 1): {
+    canvas: HTMLCanvasElement;
+    draw: (source: HTMLCanvasElement) => CanvasRenderingContext2D;
+} {
+    const canvas = document.createElement("canvas");
+    canvas.width = screen.width * scale;
+    canvas.height = screen.height * scale;
+    const context = canvas.getContext("2d", { willReadFrequently: scale === 1 })!;
+    context.imageSmoothingEnabled = false;
+
+    return {
+        canvas,
+        draw: (source) => {
+            context.drawImage(source, 0, 0, canvas.width, canvas.height);
+            return context;
+        },
+    };
+}
+
+export function captureScreenshot(source: HTMLCanvasElement, screen: Size): Promise<Blob> {
+    const { canvas, draw } = createCaptureCanvas(screen);
+    draw(source);
+
+    return new Promise((resolve, reject) => {
+        canvas.toBlob((blob) => {
+            if (blob) resolve(blob);
+            else reject(new Error("Failed to capture the screen"));
+        }, "image/png");
+    });
+}
+
+/**
+ * RGBA pixels of the screen, or of a region of it, at native resolution
+ */
+export function readScreenPixels(
+    source: HTMLCanvasElement,
+    screen: Size,
+    region: { x: number; y: number; width: number; height: number } = { x: 0, y: 0, ...screen }
+): ImageData {
+    const { draw } = createCaptureCanvas(screen);
+    return draw(source).getImageData(region.x, region.y, region.width, region.height);
+}
+
+function pickVideoType(): string {
+    const types = ["video/webm;codecs=vp9,opus", "video/webm;codecs=vp8,opus", "video/webm"];
+    return types.find((type) => MediaRecorder.isTypeSupported(type)) ?? "video/webm";
+}
+
+/**
+ * Record the screen, and the audio stream if given, to WebM
+ */
+export function startVideoRecording(
+    getSource: () => HTMLCanvasElement | null,
+    screen: Size,
+    audio: MediaStream | null
+): Recording {
+    const scale = Math.max(1, Math.ceil(MIN_VIDEO_HEIGHT / screen.height));
+    const { canvas, draw } = createCaptureCanvas(screen, scale);
+
+    let frame = 0;
+    const copy = () => {
+        const source = getSource();
+        if (source) draw(source);
+        frame = requestAnimationFrame(copy);
+    };
+    copy();
+
+    const stream = canvas.captureStream(VIDEO_FPS);
+    audio?.getAudioTracks().forEach((track) => stream.addTrack(track));
+
+    const type = pickVideoType();
+    const recorder = new MediaRecorder(stream, { mimeType: type });
+    const chunks: Blob[] = [];
+    recorder.ondataavailable = (e) => {
+        if (e.data.size > 0) chunks.push(e.data);
+    };
+    recorder.start(1000);
+
+    const release = () => {
+        cancelAnimationFrame(frame);
+        stream.getVideoTracks().forEach((track) => track.stop());
+    };
+
+    return {
+        stop: () => new Promise((resolve) => {
+            recorder.onstop = () => {
+                release();
+                resolve(new Blob(chunks, { type: type.split(";")[0] }));
+            };
+            recorder.stop();
+        }),
+        cancel: () => {
+            recorder.ondataavailable = null;
+            recorder.onstop = release;
+            recorder.stop();
+        },
+    };
+}
+
+/**
+ * Record a short clip as an animated GIF. Capture ends by itself after
+ * MAX_GIF_SECONDS; stop() still returns what was captured.
+ */
+export function startGifRecording(getSource: () => HTMLCanvasElement | null, screen: Size): Recording {
+    const { draw } = createCaptureCanvas(screen);
+    const frames: GifFrame[] = [];
+    const delay = 1000 / GIF_FPS;
+
+    const capture = () => {
+        const source = getSource();
+        if (!source) return;
+
+        const pixels = draw(source).getImageData(0, 0, screen.width, screen.height).data;
+        const last = frames[frames.length - 1];
+
+        // Identical frames just extend the previous one
+        if (last && last.pixels.every((value, i) => value === pixels[i])) {
+            last.delay += delay;
+        } else {
+            frames.push({ pixels, delay });
+        }
+    };
+
+    capture();
+    const timer = setInterval(capture, delay);
+    const limit = setTimeout(() => clearInterval(timer), MAX_GIF_SECONDS * 1000);
+
+    const end = () => {
+        clearInterval(timer);
+        clearTimeout(limit);
+    };
+
+    return {
+        stop: async () => {
+            end();
+            return encodeGif(screen.width, screen.height, frames);
+        },
+        cancel: () => {
+            end();
+            frames.length = 0;
+        },
+    };
+}
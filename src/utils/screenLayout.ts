@@ -0,0 +1,167 @@
+/**
+ * Screen Layout Utility
+ * Where the device screen sits inside the emulator's screen area, and the
+ * mapping between CSS pixels and device pixels
+ */
+
+export type ScreenRotation = 0 | 90 | 180 | 270;
+
+/**
+ * How the screen is scaled: the largest whole multiple that fits, any
+ * factor that fits, or a fixed multiple
+ */
+export type ScaleMode = "integer" | "fit" | "1x" | "2x" | "3x";
+
+/** Nearest-neighbour keeps pixel art sharp; smooth interpolates */
+export type ScreenFilter = "nearest" | "smooth";
+
+export interface DisplayOptions {
+    scaleMode: ScaleMode;
+    filter: ScreenFilter;
+    rotation: ScreenRotation;
+    /** Whether the game opens with everything but the screen hidden */
+    fullscreen: boolean;
+}
+
+export const DEFAULT_DISPLAY_OPTIONS: DisplayOptions = {
+    scaleMode: "integer",
+    filter: "nearest",
+    rotation: 0,
+    fullscreen: false,
+};
+
+const FIXED_SCALES: Partial<Record<ScaleMode, number>> = { "1x": 1, "2x": 2, "3x": 3 };
+
+export interface Size {
+    width: number;
+    height: number;
+}
+
+export interface ScreenLayout {
+    /** Device screen size, in device pixels */
+    screen: Size;
+    /** Clockwise rotation of the screen */
+    rotation: ScreenRotation;
+    /** CSS pixels per device pixel */
+    scale: number;
+    /** Box the rotated, scaled screen occupies inside the area, in CSS pixels */
+    left: number;
+    top: number;
+    width: number;
+    height: number;
+}
+
+export interface ScreenPoint {
+    x: number;
+    y: number;
+    /** Whether the point lies on the screen; points outside are clamped */
+    inside: boolean;
+}
+
+/**
+ * Size of the screen once rotated, in device pixels
+ */
+export function rotatedSize(screen: Size, rotation: ScreenRotation): Size {
+    return rotation === 90 || rotation === 270
+        ? { width: screen.height, height: screen.width }
+        : screen;
+}
+
+/**
+ * CSS pixels per device pixel for a scale mode, given the space available
+ */
+export function computeScreenScale(
+    mode: ScaleMode,
+    screen: Size,
+    rotation: ScreenRotation,
+    available: Size
+): number {
+    const fixed = FIXED_SCALES[mode];
+    if (fixed !== undefined) return fixed;
+
+    const box = rotatedSize(screen, rotation);
+    const fitScale = Math.min(available.width / box.width, available.height / box.height);
+
+    // Integer scaling never goes below 1x, even if it overflows
+    return mode === "integer" ? Math.max(1, Math.floor(fitScale)) : fitScale;
+}
+
+/**
+ * Center the device screen inside an area, letterboxing the rest. Without
+ * a scale, the screen is fitted to the area keeping its aspect ratio.
+ */
+export function computeScreenLayout(
+    area: Size,
+    screen: Size,
+    rotation: ScreenRotation = 0,
+    scale?: number
+): ScreenLayout {
+    const { width: boxWidth, height: boxHeight } = rotatedSize(screen, rotation);
+    scale ??= Math.min(area.width / boxWidth, area.height / boxHeight);
+
+    return {
+        screen,
+        rotation,
+        scale,
+        left: (area.width - boxWidth * scale) / 2,
+        top: (area.height - boxHeight * scale) / 2,
+        width: boxWidth * scale,
+        height: boxHeight * scale,
+    };
+}
+
+/**
+ * CSS transform placing an element of the screen's size, with its origin
+ * at the area's top-left corner, where the layout wants it
+ */
+export function toCSSTransform(layout: ScreenLayout): string {
+    const { screen, rotation, scale, left, top, width, height } = layout;
+    return [
+        `translate(${left + width / 2}px, ${top + height / 2}px)`,
+        `rotate(${rotation}deg)`,
+        `scale(${scale})`,
+        `translate(${-screen.width / 2}px, ${-screen.height / 2}px)`,
+    ].join(" ");
+}
+
+/**
+ * Map a point in CSS pixels, relative to the area, to device pixels
+ */
+export function toScreenPoint(layout: ScreenLayout, x: number, y: number): ScreenPoint {
+    const { screen, rotation, scale, left, top, width, height } = layout;
+
+    // Undo the translation and rotation around the box center, then the scale
+    const dx = x - left - width / 2;
+    const dy = y - top - height / 2;
+    const angle = (rotation * Math.PI) / 180;
+    const cos = Math.round(Math.cos(angle));
+    const sin = Math.round(Math.sin(angle));
+    const screenX = (dx * cos + dy * sin) / scale + screen.width / 2;
+    const screenY = (-dx * sin + dy * cos) / scale + screen.height / 2;
+
+    const inside = screenX >= 0 && screenX < screen.width && screenY >= 0 && screenY < screen.height;
+
+    return {
+        x: Math.min(Math.max(Math.floor(screenX), 0), screen.width - 1),
+        y: Math.min(Math.max(Math.floor(screenY), 0), screen.height - 1),
+        inside,
+    };
+}
+
+/**
+ * Map the center of a device pixel to CSS pixels, relative to the area
+ */
+export function fromScreenPoint(layout: ScreenLayout, x: number, y: number): { x: number; y: number } {
+    const { screen, rotation, scale, left, top, width, height } = layout;
+
+    const sx = x + 0.5 - screen.width / 2;
+    const sy = y + 0.5 - screen.height / 2;
+    const angle = (rotation * Math.PI) / 180;
+    const cos = Math.round(Math.cos(angle));
+    const sin = Math.round(Math.sin(angle));
+
+    return {
+        x: (sx * cos - sy * sin) * scale + left + width / 2,
+        y: (sx * sin + sy * cos) * scale + top + height / 2,
+    };
+}
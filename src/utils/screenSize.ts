@@ -0,0 +1,232 @@
+/**
+ * Screen Size Utility
+ * Infers the screen size a MIDlet was built for from vendor attributes,
+ * JAR naming conventions and the images it ships
+ */
+
+export type ScreenSizeOrigin = "attribute" | "file-name" | "image" | "default";
+
+export interface ScreenSizeSource {
+    origin: ScreenSizeOrigin;
+    /** Human-readable description of where the size came from */
+    detail: string;
+}
+
+export interface ScreenSize {
+    width: number;
+    height: number;
+    source: ScreenSizeSource;
+}
+
+export interface ImageInfo {
+    path: string;
+    width: number;
+    height: number;
+}
+
+export const DEFAULT_SCREEN_SIZE: ScreenSize = {
+    width: 240,
+    height: 320,
+    source: { origin: "default", detail: "Default size" },
+};
+
+// Screen sizes of common J2ME handsets
+const KNOWN_SIZES: [number, number][] = [
+    [96, 65],
+    [101, 80],
+    [128, 128],
+    [128, 160],
+    [130, 130],
+    [132, 176],
+    [176, 208],
+    [176, 220],
+    [208, 208],
+    [240, 320],
+    [240, 400],
+    [320, 240],
+    [352, 416],
+    [360, 640],
+    [480, 800],
+    [640, 360],
+];
+
+const MIN_DIMENSION = 64;
+const MAX_DIMENSION = 1024;
+
+// Image names that usually cover the whole screen
+const FULL_SCREEN_IMAGE = /(splash|background|bg|title|intro|logo|menu|loading|screen)/i;
+
+/**
+ * Attributes carrying a single "WxH" or "W,H" value
+ */
+const SIZE_ATTRIBUTES = [
+    "Nokia-MIDlet-Original-Display-Size",
+    "Nokia-MIDlet-Target-Display-Size",
+    "Nokia-MIDlet-Canvas-Size",
+    "MIDxlet-ScreenSize", // Samsung
+    "SEMC-Screen-Size", // Sony Ericsson
+];
+
+/**
+ * Attribute pairs carrying width and height separately
+ */
+const SIZE_ATTRIBUTE_PAIRS: [string, string][] = [
+    ["MIDlet-Screen-Width", "MIDlet-Screen-Height"],
+    ["LGE-MIDlet-Width", "LGE-MIDlet-Height"], // LG
+];
+
+function isPlausible(width: number, height: number): boolean {
+    return (
+        width >= MIN_DIMENSION &&
+        height >= MIN_DIMENSION &&
+        width <= MAX_DIMENSION &&
+        height <= MAX_DIMENSION
+    );
+}
+
+function isKnownSize(width: number, height: number): boolean {
+    return KNOWN_SIZES.some(([w, h]) => w === width && h === height);
+}
+
+/**
+ * Parse a "240x320", "240,320" or "240*320" value
+ */
+function parseSizeValue(value: string): [number, number] | null {
+    const match = value.match(/(\d+)\s*[x×X,*]\s*(\d+)/);
+    if (!match) return null;
+
+    const width = parseInt(match[1], 10);
+    const height = parseInt(match[2], 10);
+    return isPlausible(width, height) ? [width, height] : null;
+}
+
+/**
+ * Infer the screen size from manifest attributes, then from the JAR file name
+ */
+export function inferScreenSize(
+    attributes: Record<string, string>,
+    fileName?: string
+): ScreenSize {
+    for (const [widthKey, heightKey] of SIZE_ATTRIBUTE_PAIRS) {
+        const width = parseInt(attributes[widthKey], 10);
+        const height = parseInt(attributes[heightKey], 10);
+
+        if (isPlausible(width, height)) {
+            return {
+                width,
+                height,
+                source: { origin: "attribute", detail: `${widthKey} / ${heightKey}` },
+            };
+        }
+    }
+
+    for (const key of SIZE_ATTRIBUTES) {
+        const size = attributes[key] && parseSizeValue(attributes[key]);
+        if (size) {
+            return {
+                width: size[0],
+                height: size[1],
+                source: { origin: "attribute", detail: key },
+            };
+        }
+    }
+
+    if (fileName) {
+        // e.g. "Game_176x208.jar", "game-240x320-nokia.jar"
+        for (const match of fileName.matchAll(/(?:^|[^\d])(\d{2,4})[xX×](\d{2,4})(?!\d)/g)) {
+            const width = parseInt(match[1], 10);
+            const height = parseInt(match[2], 10);
+
+            if (isPlausible(width, height)) {
+                return {
+                    width,
+                    height,
+                    source: { origin: "file-name", detail: `File name "${fileName}"` },
+                };
+            }
+        }
+    }
+
+    return DEFAULT_SCREEN_SIZE;
+}
+
+/**
+ * Check whether an image path looks like a full-screen image
+ */
+export function isFullScreenImageName(path: string): boolean {
+    const name = path.substring(path.lastIndexOf("/") + 1);
+    return FULL_SCREEN_IMAGE.test(name);
+}
+
+/**
+ * Guess the screen size from the dimensions of splash and background images.
+ * Images matching a known handset size win; the most common size is used.
+ */
+export function guessScreenSizeFromImages(images: ImageInfo[]): ScreenSize | null {
+    const votes = new Map<string, { image: ImageInfo; count: number }>();
+
+    for (const image of images) {
+        if (!isKnownSize(image.width, image.height)) continue;
+
+        const key = `${image.width}x${image.height}`;
+        const vote = votes.get(key);
+        // Full-screen image names count double
+        const weight = isFullScreenImageName(image.path) ? 2 : 1;
+
+        if (vote) {
+            vote.count += weight;
+        } else {
+            votes.set(key, { image, count: weight });
+        }
+    }
+
+    let best: { image: ImageInfo; count: number } | null = null;
+    for (const vote of votes.values()) {
+        if (!best || vote.count > best.count) best = vote;
+    }
+
+    if (!best) return null;
+
+    return {
+        width: best.image.width,
+        height: best.image.height,
+        source: { origin: "image", detail: `Image "${best.image.path}"` },
+    };
+}
+
+/**
+ * Read the pixel dimensions of a PNG, GIF or JPEG image from its header
+ */
+export function readImageSize(data: Uint8Array): { width: number; height: number } | null {
+    const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+
+    // PNG: signature, then the IHDR chunk
+    if (data.byteLength >= 24 && view.getUint32(0) === 0x89504e47) {
+        return { width: view.getUint32(16), height: view.getUint32(20) };
+    }
+
+    // GIF: "GIF8", then the logical screen size (little-endian)
+    if (data.byteLength >= 10 && view.getUint32(0) === 0x47494638) {
+        return { width: view.getUint16(6, true), height: view.getUint16(8, true) };
+    }
+
+    // JPEG: walk the segments up to a start-of-frame marker
+    if (data.byteLength >= 4 && view.getUint16(0) === 0xffd8) {
+        let offset = 2;
+
+        while (offset + 9 < data.byteLength) {
+            if (data[offset] !== 0xff) return null;
+
+            const marker = data[offset + 1];
+            const length = view.getUint16(offset + 2);
+
+            if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+                return { width: view.getUint16(offset + 7), height: view.getUint16(offset + 5) };
+            }
+
+            offset += 2 + length;
+        }
+    }
+
+    return null;
+}
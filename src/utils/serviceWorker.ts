@@ -0,0 +1,29 @@
+/**
+ * Service Worker Utility
+ * Registers the worker that keeps the app and the CheerpJ runtime
+ * available offline
+ */
+
+import { resolveLoaderUrl } from "./runtimeLoader";
+
+// Worker URL last registered from this page
+let registeredUrl: string | null = null;
+
+/**
+ * Register the worker for the given runtime. The loader URL is part of the
+ * worker URL, so switching runtimes installs a worker caching the new one;
+ * launching again with the same runtime registers nothing.
+ */
+export function registerServiceWorker(loaderUrl: string = resolveLoaderUrl()): void {
+    // The dev server serves modules that must not be cached
+    if (!import.meta.env.PROD || !("serviceWorker" in navigator)) return;
+
+    const url = `${import.meta.env.BASE_URL}sw.js?loader=${encodeURIComponent(loaderUrl)}`;
+    if (url === registeredUrl) return;
+
+    registeredUrl = url;
+    navigator.serviceWorker.register(url).catch((err) => {
+        registeredUrl = null;
+        console.warn("Offline support unavailable", err);
+    });
+}
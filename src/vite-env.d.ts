@@ -0,0 +1,10 @@
+/// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+    /** URL of cj3loader.js, to use a self-hosted CheerpJ runtime */
+    readonly VITE_CHEERPJ_LOADER_URL?: string;
+}
+
+interface ImportMeta {
+    readonly env: ImportMetaEnv;
+}
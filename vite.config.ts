@@ -1,7 +1,53 @@
-import { defineConfig } from 'vite'
+import { createHash } from 'node:crypto'
+import { readFileSync, readdirSync } from 'node:fs'
+import { defineConfig, type Plugin } from 'vite'
 import react from '@vitejs/plugin-react'
 
+/**
+ * Emit precache-manifest.json, listing every built file for the service
+ * worker to cache, with a version that changes whenever any of them does
+ */
+function precacheManifest(): Plugin {
+  return {
+    name: 'precache-manifest',
+    apply: 'build',
+    enforce: 'post',
+    generateBundle(_, bundle) {
+      const publicFiles = readdirSync('public', { recursive: true, withFileTypes: true })
+        .filter((entry) => entry.isFile() && entry.name !== 'sw.js')
+        .map((entry) => `${entry.parentPath}/${entry.name}`.replace(/^public\/?/, ''))
+      const files = [...Object.keys(bundle), ...publicFiles]
+        // Every browser with service workers reads woff2, never the woff fallbacks
+        .filter((file) => !file.endsWith('.map') && !file.endsWith('.woff'))
+        .sort()
+
+      // Hashed asset names change with their content, and index.html links
+      // them; public files keep their names, so their content counts
+      const hash = createHash('sha256').update(files.join('\n'))
+      for (const file of publicFiles) hash.update(readFileSync(`public/${file}`))
+      const version = hash.digest('hex').slice(0, 12)
+      this.emitFile({
+        type: 'asset',
+        fileName: 'precache-manifest.json',
+        source: JSON.stringify({ version, files }),
+      })
+    },
+  }
+}
+
 // https://vite.dev/config/
 export default defineConfig({
-  plugins: [react()],
+  plugins: [react(), precacheManifest()],
+  build: {
+    rollupOptions: {
+      // embed.js defines <j2me-player>; other pages load it by a fixed name
+      input: { index: 'index.html', embed: 'src/embed.ts' },
+      output: {
+        entryFileNames: (chunk) => (chunk.name === 'embed' ? 'embed.js' : 'assets/[name]-[hash].js'),
+        // The protocol is all embed.js shares with the app; alone in its
+        // chunk, hosts never download React with it
+        manualChunks: (id) => (id.endsWith('/src/utils/embedProtocol.ts') ? 'embedProtocol' : undefined),
+      },
+    },
+  },
 })